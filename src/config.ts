@@ -0,0 +1,325 @@
+import { readFileSync } from 'fs';
+import * as dotenv from 'dotenv';
+
+import { LOG_LEVELS, LogLevel, isLogLevel } from './utils/logger.js';
+
+// ----- Configuration Management -----
+
+/**
+ * Server configuration interface
+ */
+export interface ServerConfig {
+  /** Calil API application key */
+  apiKey?: string;
+  /** Calil library API endpoint */
+  libraryApiUrl: string;
+  /** Calil book availability (check) API endpoint */
+  checkApiUrl: string;
+  /** Initial interval between polls of a running availability check, in milliseconds */
+  pollIntervalMs: number;
+  /** Maximum number of polls before an availability check times out */
+  maxPollRetries: number;
+  /** Factor the poll interval is multiplied by after each poll */
+  pollBackoffFactor: number;
+  /** Upper bound of the poll interval, in milliseconds */
+  maxPollIntervalMs: number;
+  /** Total time an availability check may poll before partial results are returned, in milliseconds */
+  pollTimeoutMs: number;
+  /** Maximum number of Calil API requests sent per second, shared by all sessions (NDL Search requests are not counted) */
+  requestsPerSecond: number;
+  /** Number of retries when Calil answers 429 or 5xx */
+  maxRetries: number;
+  /** Base delay before retrying, doubled on each retry, in milliseconds */
+  retryBaseDelayMs: number;
+  /** Default number of libraries returned by library listing tools */
+  defaultResultLimit: number;
+  /** Upper bound for the limit parameter of library listing tools */
+  maxResultLimit: number;
+  /** Prefecture used when a tool call omits it */
+  defaultPrefecture?: string;
+  /** City used when a tool call omits it */
+  defaultCity?: string;
+  /** Library directory cache settings */
+  cache: {
+    ttlSeconds: number;
+    maxEntries: number;
+    file?: string;
+  };
+  /** Availability watchlist settings */
+  watchlist: {
+    /** JSON file the watchlist is persisted to (kept in memory only when omitted) */
+    file?: string;
+    /** Interval between background checks of every watch, in minutes (0 disables background checks) */
+    checkIntervalMinutes: number;
+  };
+  /** User profile settings */
+  profile: {
+    /** JSON file the profile is persisted to (kept in memory only when omitted) */
+    file?: string;
+  };
+  /** Log level written to stderr */
+  logLevel: LogLevel;
+  /** JSON file of bibliographic records used instead of NDL Search */
+  bookLookupFixturePath?: string;
+  /** Maximum number of NDL Search requests sent per second, shared by all sessions */
+  bookLookupRequestsPerSecond: number;
+  /** Transport used to talk to MCP clients */
+  transport: 'stdio' | 'sse';
+  /** Bind address of the HTTP server (sse transport only) */
+  host: string;
+  /** Port of the HTTP server (sse transport only) */
+  port: number;
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_CONFIG: ServerConfig = {
+  libraryApiUrl: 'https://api.calil.jp/library',
+  checkApiUrl: 'https://api.calil.jp/check',
+  pollIntervalMs: 1000,
+  maxPollRetries: 20,
+  pollBackoffFactor: 1.5,
+  maxPollIntervalMs: 5000,
+  pollTimeoutMs: 30000,
+  requestsPerSecond: 1,
+  maxRetries: 2,
+  retryBaseDelayMs: 1000,
+  defaultResultLimit: 10,
+  maxResultLimit: 100,
+  cache: {
+    ttlSeconds: 86400,
+    maxEntries: 200,
+  },
+  watchlist: {
+    checkIntervalMinutes: 0,
+  },
+  profile: {},
+  logLevel: 'info',
+  bookLookupRequestsPerSecond: 1,
+  transport: 'stdio',
+  host: '127.0.0.1',
+  port: 3000,
+};
+
+/**
+ * Definition of a configuration option and where it can be set
+ */
+interface OptionDefinition {
+  /** Dot-separated path in ServerConfig */
+  path: string;
+  /** Command line flag */
+  flag: string;
+  /** Environment variable */
+  env: string;
+  type: 'string' | 'number';
+}
+
+const OPTION_DEFINITIONS: OptionDefinition[] = [
+  { path: 'apiKey', flag: '--api-key', env: 'CALIL_APPLICATION_KEY', type: 'string' },
+  { path: 'libraryApiUrl', flag: '--library-api-url', env: 'CALIL_LIBRARY_API_URL', type: 'string' },
+  { path: 'checkApiUrl', flag: '--check-api-url', env: 'CALIL_CHECK_API_URL', type: 'string' },
+  { path: 'pollIntervalMs', flag: '--poll-interval', env: 'CALIL_POLL_INTERVAL_MS', type: 'number' },
+  { path: 'maxPollRetries', flag: '--max-poll-retries', env: 'CALIL_MAX_POLL_RETRIES', type: 'number' },
+  { path: 'pollBackoffFactor', flag: '--poll-backoff', env: 'CALIL_POLL_BACKOFF_FACTOR', type: 'number' },
+  { path: 'maxPollIntervalMs', flag: '--max-poll-interval', env: 'CALIL_MAX_POLL_INTERVAL_MS', type: 'number' },
+  { path: 'pollTimeoutMs', flag: '--poll-timeout', env: 'CALIL_POLL_TIMEOUT_MS', type: 'number' },
+  { path: 'requestsPerSecond', flag: '--rate-limit', env: 'CALIL_REQUESTS_PER_SECOND', type: 'number' },
+  { path: 'maxRetries', flag: '--max-retries', env: 'CALIL_MAX_RETRIES', type: 'number' },
+  { path: 'retryBaseDelayMs', flag: '--retry-delay', env: 'CALIL_RETRY_BASE_DELAY_MS', type: 'number' },
+  { path: 'defaultResultLimit', flag: '--result-limit', env: 'BOOK_SEARCH_RESULT_LIMIT', type: 'number' },
+  { path: 'maxResultLimit', flag: '--max-result-limit', env: 'BOOK_SEARCH_MAX_RESULT_LIMIT', type: 'number' },
+  { path: 'defaultPrefecture', flag: '--default-prefecture', env: 'BOOK_SEARCH_DEFAULT_PREFECTURE', type: 'string' },
+  { path: 'defaultCity', flag: '--default-city', env: 'BOOK_SEARCH_DEFAULT_CITY', type: 'string' },
+  { path: 'cache.ttlSeconds', flag: '--cache-ttl', env: 'CALIL_LIBRARY_CACHE_TTL', type: 'number' },
+  { path: 'cache.maxEntries', flag: '--cache-max-entries', env: 'CALIL_LIBRARY_CACHE_MAX_ENTRIES', type: 'number' },
+  { path: 'cache.file', flag: '--cache-file', env: 'CALIL_LIBRARY_CACHE_FILE', type: 'string' },
+  { path: 'watchlist.file', flag: '--watchlist-file', env: 'BOOK_SEARCH_WATCHLIST_FILE', type: 'string' },
+  { path: 'watchlist.checkIntervalMinutes', flag: '--watch-interval', env: 'BOOK_SEARCH_WATCH_INTERVAL_MINUTES', type: 'number' },
+  { path: 'profile.file', flag: '--profile-file', env: 'BOOK_SEARCH_PROFILE_FILE', type: 'string' },
+  { path: 'logLevel', flag: '--log-level', env: 'BOOK_SEARCH_LOG_LEVEL', type: 'string' },
+  { path: 'bookLookupFixturePath', flag: '--book-lookup-fixture', env: 'BOOK_LOOKUP_FIXTURE_PATH', type: 'string' },
+  { path: 'bookLookupRequestsPerSecond', flag: '--book-lookup-rate-limit', env: 'BOOK_LOOKUP_REQUESTS_PER_SECOND', type: 'number' },
+  { path: 'transport', flag: '--transport', env: 'BOOK_SEARCH_TRANSPORT', type: 'string' },
+  { path: 'host', flag: '--host', env: 'BOOK_SEARCH_HOST', type: 'string' },
+  { path: 'port', flag: '--port', env: 'BOOK_SEARCH_PORT', type: 'number' },
+];
+
+/**
+ * Set a value in the configuration object by dot-separated path
+ */
+function setConfigValue(config: ServerConfig, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let target = config as unknown as Record<string, unknown>;
+  for (const key of keys.slice(0, -1)) {
+    target = target[key] as Record<string, unknown>;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Convert a raw string option to the option's type
+ */
+function convertOptionValue(definition: OptionDefinition, raw: string): string | number {
+  return definition.type === 'number' ? Number(raw) : raw;
+}
+
+/**
+ * Load a JSON configuration file and merge it into the configuration object
+ */
+function applyConfigFile(config: ServerConfig, filePath: string): void {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const definition of OPTION_DEFINITIONS) {
+    const keys = definition.path.split('.');
+    let value: unknown = data;
+    for (const key of keys) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value !== undefined) {
+      setConfigValue(config, definition.path, value);
+    }
+  }
+}
+
+/**
+ * Parse command line arguments and return configuration object
+ * Values are resolved in the order: command line > environment variables (including .env) > config file > defaults
+ */
+export function parseArgs(): ServerConfig {
+  const args = process.argv.slice(2);
+  const config: ServerConfig = {
+    ...DEFAULT_CONFIG,
+    cache: { ...DEFAULT_CONFIG.cache },
+    watchlist: { ...DEFAULT_CONFIG.watchlist },
+    profile: { ...DEFAULT_CONFIG.profile },
+  };
+
+  // Load environment variables from .env
+  dotenv.config();
+
+  // Collect command line flags (--flag value or --flag=value)
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const [flag, inlineValue] = arg.split(/=(.*)/s, 2);
+
+    if (flag !== '--config' && !OPTION_DEFINITIONS.some(definition => definition.flag === flag)) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+
+    const value = inlineValue ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for option: ${flag}`);
+    }
+    flags.set(flag, value);
+  }
+
+  // 1. Config file
+  const configFile = flags.get('--config') ?? process.env.BOOK_SEARCH_CONFIG;
+  if (configFile) {
+    applyConfigFile(config, configFile);
+  }
+
+  // 2. Environment variables, then 3. command line flags
+  for (const definition of OPTION_DEFINITIONS) {
+    const envValue = process.env[definition.env];
+    if (envValue !== undefined && envValue !== '') {
+      setConfigValue(config, definition.path, convertOptionValue(definition, envValue));
+    }
+
+    const flagValue = flags.get(definition.flag);
+    if (flagValue !== undefined) {
+      setConfigValue(config, definition.path, convertOptionValue(definition, flagValue));
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Validate configuration
+ * @throws Error listing every invalid setting
+ */
+export function validateConfig(config: ServerConfig): void {
+  const errors: string[] = [];
+
+  const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+  const isHttpUrl = (value: unknown) => typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+
+  if (!config.apiKey) {
+    errors.push('Calil API key is required (set CALIL_APPLICATION_KEY or --api-key)');
+  }
+  if (!isHttpUrl(config.libraryApiUrl)) {
+    errors.push(`libraryApiUrl must be an http(s) URL: ${config.libraryApiUrl}`);
+  }
+  if (!isHttpUrl(config.checkApiUrl)) {
+    errors.push(`checkApiUrl must be an http(s) URL: ${config.checkApiUrl}`);
+  }
+  if (!isPositiveInteger(config.pollIntervalMs)) {
+    errors.push(`pollIntervalMs must be a positive integer: ${config.pollIntervalMs}`);
+  }
+  if (!isPositiveInteger(config.maxPollRetries)) {
+    errors.push(`maxPollRetries must be a positive integer: ${config.maxPollRetries}`);
+  }
+  if (typeof config.pollBackoffFactor !== 'number' || !Number.isFinite(config.pollBackoffFactor) || config.pollBackoffFactor < 1) {
+    errors.push(`pollBackoffFactor must be a number of at least 1: ${config.pollBackoffFactor}`);
+  }
+  if (!isPositiveInteger(config.maxPollIntervalMs) || config.maxPollIntervalMs < config.pollIntervalMs) {
+    errors.push(`maxPollIntervalMs must be a positive integer no less than pollIntervalMs: ${config.maxPollIntervalMs}`);
+  }
+  if (!isPositiveInteger(config.pollTimeoutMs)) {
+    errors.push(`pollTimeoutMs must be a positive integer: ${config.pollTimeoutMs}`);
+  }
+  if (typeof config.requestsPerSecond !== 'number' || !Number.isFinite(config.requestsPerSecond) || config.requestsPerSecond <= 0) {
+    errors.push(`requestsPerSecond must be a positive number: ${config.requestsPerSecond}`);
+  }
+  if (typeof config.bookLookupRequestsPerSecond !== 'number' || !Number.isFinite(config.bookLookupRequestsPerSecond) || config.bookLookupRequestsPerSecond <= 0) {
+    errors.push(`bookLookupRequestsPerSecond must be a positive number: ${config.bookLookupRequestsPerSecond}`);
+  }
+  if (typeof config.maxRetries !== 'number' || !Number.isInteger(config.maxRetries) || config.maxRetries < 0) {
+    errors.push(`maxRetries must be a non-negative integer: ${config.maxRetries}`);
+  }
+  if (!isPositiveInteger(config.retryBaseDelayMs)) {
+    errors.push(`retryBaseDelayMs must be a positive integer: ${config.retryBaseDelayMs}`);
+  }
+  if (!isPositiveInteger(config.maxResultLimit)) {
+    errors.push(`maxResultLimit must be a positive integer: ${config.maxResultLimit}`);
+  }
+  if (!isPositiveInteger(config.defaultResultLimit) || config.defaultResultLimit > config.maxResultLimit) {
+    errors.push(`defaultResultLimit must be a positive integer no greater than maxResultLimit: ${config.defaultResultLimit}`);
+  }
+  if (config.defaultCity && !config.defaultPrefecture) {
+    errors.push('defaultCity requires defaultPrefecture');
+  }
+  if (!isPositiveInteger(config.cache.ttlSeconds)) {
+    errors.push(`cache.ttlSeconds must be a positive integer: ${config.cache.ttlSeconds}`);
+  }
+  if (!isPositiveInteger(config.cache.maxEntries)) {
+    errors.push(`cache.maxEntries must be a positive integer: ${config.cache.maxEntries}`);
+  }
+  if (typeof config.watchlist.checkIntervalMinutes !== 'number' || !Number.isFinite(config.watchlist.checkIntervalMinutes) || config.watchlist.checkIntervalMinutes < 0) {
+    errors.push(`watchlist.checkIntervalMinutes must be a non-negative number: ${config.watchlist.checkIntervalMinutes}`);
+  }
+  if (!isLogLevel(config.logLevel)) {
+    errors.push(`logLevel must be one of ${LOG_LEVELS.join(', ')}: ${config.logLevel}`);
+  }
+  if (config.transport !== 'stdio' && config.transport !== 'sse') {
+    errors.push(`transport must be one of stdio, sse: ${config.transport}`);
+  }
+  if (!config.host) {
+    errors.push('host must not be empty');
+  }
+  if (!isPositiveInteger(config.port) || config.port > 65535) {
+    errors.push(`port must be an integer between 1 and 65535: ${config.port}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+}
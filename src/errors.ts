@@ -0,0 +1,318 @@
+/**
+ * Typed error model
+ *
+ * Every failure surfaced to MCP clients carries a machine-readable code and a retry hint,
+ * so that agents can branch on the code instead of matching error messages.
+ */
+
+/**
+ * Error codes returned to MCP clients
+ */
+export type BookSearchErrorCode =
+  | 'MISSING_API_KEY'
+  | 'INVALID_ARGUMENT'
+  | 'INVALID_ISBN'
+  | 'NO_LIBRARIES_FOUND'
+  | 'LIBRARY_NOT_FOUND'
+  | 'AMBIGUOUS_LIBRARY'
+  | 'UNKNOWN_AREA'
+  | 'AMBIGUOUS_AREA'
+  | 'BOOK_NOT_FOUND'
+  | 'RESOURCE_NOT_FOUND'
+  | 'WATCH_NOT_FOUND'
+  | 'UNKNOWN_TOOL'
+  | 'UNKNOWN_PROMPT'
+  | 'UPSTREAM_HTTP_ERROR'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_NETWORK_ERROR'
+  | 'UPSTREAM_INVALID_RESPONSE'
+  | 'POLL_TIMEOUT'
+  | 'CANCELLED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * JSON representation of an error in tool results
+ */
+export interface BookSearchErrorPayload {
+  /** Human readable message */
+  error: string;
+  code: BookSearchErrorCode;
+  /** Whether the same request may succeed if retried */
+  retryable: boolean;
+  /** Suggested wait before retrying, in milliseconds */
+  retryAfterMs?: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Base class of all errors raised by this server
+ */
+export class BookSearchError extends Error {
+  readonly code: BookSearchErrorCode;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: BookSearchErrorCode,
+    message: string,
+    options: { retryable?: boolean; retryAfterMs?: number; details?: Record<string, unknown> } = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+
+  toJSON(): BookSearchErrorPayload {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.retryAfterMs !== undefined && { retryAfterMs: this.retryAfterMs }),
+      ...(this.details && { details: this.details }),
+    };
+  }
+}
+
+/**
+ * The Calil API key is not configured
+ */
+export class MissingApiKeyError extends BookSearchError {
+  constructor() {
+    super('MISSING_API_KEY', 'CALIL_APPLICATION_KEY is not defined in environment variables');
+  }
+}
+
+/**
+ * A tool argument is missing or malformed
+ */
+export class InvalidArgumentError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('INVALID_ARGUMENT', message, { details });
+  }
+}
+
+/**
+ * None of the given ISBN candidates is valid
+ */
+export class InvalidIsbnError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('INVALID_ISBN', message, { details });
+  }
+}
+
+/**
+ * No libraries exist for the requested area
+ */
+export class NoLibrariesFoundError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('NO_LIBRARIES_FOUND', message, { details });
+  }
+}
+
+/**
+ * No library matches the given libid, libkey, ISIL code or name
+ */
+export class LibraryNotFoundError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('LIBRARY_NOT_FOUND', message, { details });
+  }
+}
+
+/**
+ * A library name matches several libraries equally well
+ * The matching libraries are listed in details.candidates
+ */
+export class AmbiguousLibraryError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('AMBIGUOUS_LIBRARY', message, { details });
+  }
+}
+
+/**
+ * A prefecture or city name does not match any known area
+ * Similar names are listed in details.suggestions
+ */
+export class UnknownAreaError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('UNKNOWN_AREA', message, { details });
+  }
+}
+
+/**
+ * A prefecture or city name matches several areas
+ * The matching areas are listed in details.candidates
+ */
+export class AmbiguousAreaError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('AMBIGUOUS_AREA', message, { details });
+  }
+}
+
+/**
+ * No books matched a bibliographic lookup
+ */
+export class BookNotFoundError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('BOOK_NOT_FOUND', message, { details });
+  }
+}
+
+/**
+ * A resource URI does not point to existing data
+ */
+export class ResourceNotFoundError extends BookSearchError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('RESOURCE_NOT_FOUND', message, { details });
+  }
+}
+
+/**
+ * No watch is registered with the given ID
+ */
+export class WatchNotFoundError extends BookSearchError {
+  constructor(id: string) {
+    super('WATCH_NOT_FOUND', `No watch registered with ID: ${id}`, { details: { id } });
+  }
+}
+
+/**
+ * The requested tool does not exist
+ */
+export class UnknownToolError extends BookSearchError {
+  constructor(name: string) {
+    super('UNKNOWN_TOOL', `Unknown tool: ${name}`, { details: { tool: name } });
+  }
+}
+
+/**
+ * The requested prompt does not exist
+ */
+export class UnknownPromptError extends BookSearchError {
+  constructor(name: string) {
+    super('UNKNOWN_PROMPT', `Unknown prompt: ${name}`, { details: { prompt: name } });
+  }
+}
+
+/**
+ * An upstream API answered with an unexpected HTTP status
+ * Server errors (5xx) are retryable
+ */
+export class UpstreamHttpError extends BookSearchError {
+  readonly status: number;
+
+  constructor(status: number, service: string) {
+    super('UPSTREAM_HTTP_ERROR', `API call failed with status: ${status}`, {
+      retryable: status >= 500,
+      details: { status, service },
+    });
+    this.status = status;
+  }
+}
+
+/**
+ * An upstream API rejected the request because of rate limiting (HTTP 429)
+ */
+export class UpstreamRateLimitedError extends BookSearchError {
+  constructor(service: string, retryAfterMs?: number) {
+    super('UPSTREAM_RATE_LIMITED', `API call was rate limited by ${service}`, {
+      retryable: true,
+      retryAfterMs: retryAfterMs ?? 60000,
+      details: { status: 429, service },
+    });
+  }
+}
+
+/**
+ * An upstream API could not be reached
+ */
+export class UpstreamNetworkError extends BookSearchError {
+  constructor(message: string, service: string) {
+    super('UPSTREAM_NETWORK_ERROR', `Failed to reach ${service}: ${message}`, {
+      retryable: true,
+      retryAfterMs: 5000,
+      details: { service },
+    });
+  }
+}
+
+/**
+ * An upstream API returned a body that could not be interpreted
+ */
+export class UpstreamInvalidResponseError extends BookSearchError {
+  constructor(message: string, service: string) {
+    super('UPSTREAM_INVALID_RESPONSE', message, { details: { service } });
+  }
+}
+
+/**
+ * A Calil availability check did not finish within the polling limit
+ * Raised only when no library system finished; otherwise partial results are returned
+ */
+export class PollTimeoutError extends BookSearchError {
+  constructor(attempts: number, session: string, elapsedMs?: number) {
+    super('POLL_TIMEOUT', `Polling timed out after ${attempts} attempts`, {
+      retryable: true,
+      retryAfterMs: 5000,
+      details: { attempts, session, ...(elapsedMs !== undefined && { elapsedMs }) },
+    });
+  }
+}
+
+/**
+ * The client cancelled the request
+ */
+export class RequestCancelledError extends BookSearchError {
+  constructor() {
+    super('CANCELLED', 'Request was cancelled by the client');
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build the typed error for a non-OK HTTP response
+ */
+export function httpErrorFor(status: number, service: string, retryAfter: string | null): BookSearchError {
+  if (status === 429) {
+    return new UpstreamRateLimitedError(service, parseRetryAfter(retryAfter));
+  }
+  return new UpstreamHttpError(status, service);
+}
+
+/**
+ * Convert any thrown value into a BookSearchError
+ * @param service Upstream service the error came from, used for network and parse errors
+ */
+export function toBookSearchError(error: unknown, service: string = 'upstream API'): BookSearchError {
+  if (error instanceof BookSearchError) {
+    return error;
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new RequestCancelledError();
+  }
+  if (error instanceof Error && error.name === 'FetchError') {
+    // node-fetch includes the request URL in the message; never echo the API key back to clients
+    return new UpstreamNetworkError(error.message.replace(/appkey=[^&\s]+/g, 'appkey=***'), service);
+  }
+  if (error instanceof SyntaxError) {
+    return new UpstreamInvalidResponseError(`Failed to parse API response: ${error.message}`, service);
+  }
+  return new BookSearchError('INTERNAL_ERROR', error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,114 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+import { LogLevel, isLogLevelEnabled } from './utils/logger.js';
+
+/**
+ * Logger utility
+ */
+function log(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  console.error(`[http] ${message}`);
+}
+
+/**
+ * HTTP server options
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+}
+
+/**
+ * Paths served by the HTTP transport
+ */
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+/**
+ * Start an HTTP server exposing the MCP server over SSE
+ *
+ * - GET  /sse                      opens a session (SSE stream)
+ * - POST /messages?sessionId=...   sends a client message to the session
+ * - GET  /health                   health check
+ *
+ * Each session gets its own MCP server created by `createSessionServer`,
+ * so that state such as the Calil API service is not shared between clients.
+ */
+export function startHttpServer(options: HttpServerOptions, createSessionServer: () => Server): Promise<HttpServer> {
+  const sessions = new Map<string, { server: Server; transport: SSEServerTransport }>();
+  const startedAt = Date.now();
+
+  const httpServer = createHttpServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+        sendJson(res, 200, {
+          status: "ok",
+          sessions: sessions.size,
+          uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+        });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const server = createSessionServer();
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const sessionId = transport.sessionId;
+
+        sessions.set(sessionId, { server, transport });
+        const previousOnClose = server.onclose;
+        server.onclose = () => {
+          previousOnClose?.();
+          sessions.delete(sessionId);
+          log(`Session closed: ${sessionId} (${sessions.size} active)`);
+        };
+
+        await server.connect(transport);
+        log(`Session opened: ${sessionId} (${sessions.size} active)`);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get("sessionId");
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+
+        if (!session) {
+          sendJson(res, 404, { error: `Unknown session: ${sessionId ?? "(missing sessionId)"}` });
+          return;
+        }
+
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+    } catch (error) {
+      log(`Error handling ${req.method} ${url.pathname}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      log(`Listening on http://${options.host}:${options.port} (SSE: ${SSE_PATH}, health: ${HEALTH_PATH})`);
+      resolve(httpServer);
+    });
+  });
+}
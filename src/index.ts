@@ -1,41 +1,6 @@
 #!/usr/bin/env node
 import { runServer } from './server.js';
 
-// ----- Configuration Management -----
-
-/**
- * Server configuration interface
- */
-export interface ServerConfig {
-  // Define server configuration parameters
-  // Customize according to your actual implementation
-}
-
-/**
- * Parse command line arguments and return configuration object
- */
-export function parseArgs(): ServerConfig {
-  const args = process.argv.slice(2);
-  const config: ServerConfig = {};
-
-  // Argument parsing logic
-  // Example implementation:
-  // for (let i = 0; i < args.length; i++) {
-  //   const arg = args[i];
-  //   // Process arguments
-  // }
-
-  return config;
-}
-
-/**
- * Validate configuration
- */
-export function validateConfig(config: ServerConfig): void {
-  // Configuration validation logic
-  // Example: Check required parameters
-}
-
 // Execute main process
 runServer().catch((error) => {
   console.error('Fatal error:', error);
@@ -2,20 +2,61 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { ServerConfig, parseArgs, validateConfig } from './index.js';
-import { CalilApiService } from './services/calilApi.js';
+import {
+  AmbiguousAreaError,
+  AmbiguousLibraryError,
+  BookNotFoundError,
+  InvalidArgumentError,
+  InvalidIsbnError,
+  LibraryNotFoundError,
+  ResourceNotFoundError,
+  UnknownAreaError,
+  UnknownPromptError,
+  UnknownToolError,
+  WatchNotFoundError,
+  toBookSearchError,
+} from './errors.js';
+import { ServerConfig, parseArgs, validateConfig } from './config.js';
+import { startHttpServer } from './httpServer.js';
+import { CalilApiService, CheckBooksOptions, LibrarySearchArea } from './services/calilApi.js';
+import { createBookLookupProvider } from './services/bookLookup.js';
+import { LibraryCache } from './services/libraryCache.js';
+import { ProfileStore, ProfileUpdate, UserProfile, rankAvailability, rankLibraries } from './services/profile.js';
+import { RequestScheduler } from './services/requestScheduler.js';
+import { WatchEntry, WatchlistStore, checkWatches } from './services/watchlist.js';
+import { BookCandidate, BookLookupProvider, BookLookupQuery } from './types/bookLookup.js';
+import { AvailabilitySummary, BookAvailabilityResult, LibraryInfo } from './types/calil.js';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions, ExportedResults, exportResults, isExportFormat, toExportableResults } from './utils/exportFormats.js';
+import { AreaMatch, AreaName, matchCity, matchPrefecture } from './utils/gazetteer.js';
+import { Coordinates, isValidCoordinates } from './utils/geo.js';
+import { IsbnExtractionResult, extractIsbns, validateIsbns } from './utils/isbn.js';
+import { LIBRARY_CATEGORIES, LibraryCategory, LibraryFilter, LibraryLookup, PageOptions, filterLibraries, findLibraries, isLibraryCategory, paginate } from './utils/libraryFilter.js';
+import { LogLevel, isLogLevelEnabled, setLogLevel } from './utils/logger.js';
+import { PREFECTURES, isPrefecture } from './utils/prefectures.js';
+import { READING_LIST_FORMATS, ReadingListEntry, ReadingListFormat, parseReadingList } from './utils/readingList.js';
+import { MAX_PLANNED_BOOKS, planLibraryVisits } from './utils/visitPlanner.js';
 
 // ----- MCP Server Implementation -----
 
 /**
  * Logger utility
  */
-export function logger(message: string): void {
+export function logger(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
   console.error(`[mcp-book-search] ${message}`);
 }
 
@@ -30,46 +71,449 @@ export function createServer(): Server {
     },
     {
       capabilities: {
-        resources: {},
+        resources: { subscribe: true, listChanged: true },
         tools: {},
+        prompts: {},
       },
     }
   );
 }
 
+// ----- Resources -----
+
+/**
+ * Resource URI scheme for Calil library data
+ */
+const RESOURCE_SCHEME = "calil://";
+
+/**
+ * Build the resource URI of a prefecture's library directory
+ */
+export function prefectureResourceUri(pref: string): string {
+  return `${RESOURCE_SCHEME}prefecture/${encodeURIComponent(pref)}`;
+}
+
+/**
+ * Build the resource URI of a library system
+ */
+export function systemResourceUri(systemid: string): string {
+  return `${RESOURCE_SCHEME}system/${encodeURIComponent(systemid)}`;
+}
+
+/**
+ * Build the resource URI of a single library
+ */
+export function libraryResourceUri(libid: string): string {
+  return `${RESOURCE_SCHEME}library/${encodeURIComponent(libid)}`;
+}
+
+/**
+ * Build the resource URI of a watchlist entry
+ */
+export function watchResourceUri(id: string): string {
+  return `${RESOURCE_SCHEME}watch/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Parse a calil:// resource URI into its kind and identifier
+ */
+function parseResourceUri(uri: string): { kind: "prefecture" | "system" | "library" | "watch"; id: string } | null {
+  const match = uri.match(/^calil:\/\/(prefecture|system|library|watch)\/([^/?#]+)$/);
+  if (!match) {
+    return null;
+  }
+  
+  try {
+    return { kind: match[1] as "prefecture" | "system" | "library" | "watch", id: decodeURIComponent(match[2]) };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Set up handler for listing resources
  */
-export function setupListResourcesHandler(server: Server): void {
+export function setupListResourcesHandler(server: Server, watchlist: WatchlistStore): void {
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     logger("ListResources request received");
-    return { "success": true };
+    
+    return {
+      resources: [
+        ...PREFECTURES.map(pref => ({
+          uri: prefectureResourceUri(pref),
+          name: `${pref}の図書館一覧`,
+          description: `Library systems and libraries in ${pref}`,
+          mimeType: "application/json",
+        })),
+        ...watchlist.list().map(watch => ({
+          uri: watchResourceUri(watch.id),
+          name: `${watch.title ?? watch.isbn}（${watch.prefecture}${watch.city}）の貸出状況`,
+          description: `Watched availability of ISBN ${watch.isbn} in ${watch.prefecture} ${watch.city}`,
+          mimeType: "application/json",
+        })),
+      ],
+    };
+  });
+}
+
+/**
+ * Set up handler for listing resource templates
+ */
+export function setupListResourceTemplatesHandler(server: Server): void {
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    logger("ListResourceTemplates request received");
+    
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${RESOURCE_SCHEME}prefecture/{pref}`,
+          name: "Prefecture library directory",
+          description: "Library systems and libraries in a prefecture (prefecture name in Japanese, e.g. '千葉県')",
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: `${RESOURCE_SCHEME}system/{systemid}`,
+          name: "Library system",
+          description: "Libraries belonging to a Calil library system (e.g. 'Chiba_Yachiyo')",
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: `${RESOURCE_SCHEME}library/{libid}`,
+          name: "Library",
+          description: "Details of a single library. The libid is listed in prefecture and system resources",
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: `${RESOURCE_SCHEME}watch/{id}`,
+          name: "Watched book",
+          description: "Last checked availability of a watchlist entry (see the watch_book and list_watches tools)",
+          mimeType: "application/json",
+        },
+      ],
+    };
   });
 }
 
 /**
  * Set up handler for reading resources
  */
-export function setupReadResourceHandler(server: Server): void {
+export function setupReadResourceHandler(server: Server, calilApiService: CalilApiService, watchlist: WatchlistStore): void {
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    logger(`ReadResource request received for URI: ${request.params.uri}`);
+    const uri = request.params.uri;
+    logger(`ReadResource request received for URI: ${uri}`);
+    
+    let body: unknown;
+    
+    try {
+      const parsed = parseResourceUri(uri);
+      if (!parsed) {
+        throw new ResourceNotFoundError(`Unknown resource URI: ${uri}`, { uri });
+      }
+      
+      if (parsed.kind === "prefecture") {
+        if (!isPrefecture(parsed.id)) {
+          throw new ResourceNotFoundError(`Unknown prefecture: ${parsed.id}`, { uri });
+        }
+      
+        const libraries = await calilApiService.getLibraries(parsed.id);
+        body = {
+          prefecture: parsed.id,
+          libraryCount: libraries.length,
+          systems: summarizeSystems(libraries),
+          libraries: libraries.map(library => ({
+            libid: library.libid,
+            formal: library.formal,
+            city: library.city,
+            category: library.category,
+            systemid: library.systemid,
+            uri: libraryResourceUri(library.libid),
+          })),
+        };
+      }
+      else if (parsed.kind === "system") {
+        const libraries = await calilApiService.getLibrariesBySystem(parsed.id);
+        if (libraries.length === 0) {
+          throw new ResourceNotFoundError(`No libraries found for system: ${parsed.id}`, { uri });
+        }
+      
+        body = {
+          systemid: parsed.id,
+          systemname: libraries[0].systemname,
+          prefecture: libraries[0].pref,
+          libraryCount: libraries.length,
+          libraries: libraries.map(library => ({ ...library, uri: libraryResourceUri(library.libid) })),
+        };
+      }
+      else if (parsed.kind === "watch") {
+        const watch = watchlist.get(parsed.id);
+        if (!watch) {
+          throw new WatchNotFoundError(parsed.id);
+        }
+      
+        body = describeWatch(watch);
+      }
+      else {
+        const library = calilApiService.findKnownLibrary(parsed.id);
+        if (!library) {
+          throw new ResourceNotFoundError(`Library ${parsed.id} is not loaded yet. Read the prefecture or system resource that contains it first`, { uri });
+        }
+      
+        body = {
+          ...library,
+          systemUri: systemResourceUri(library.systemid),
+          prefectureUri: prefectureResourceUri(library.pref),
+        };
+      }
+    } catch (error) {
+      logger(`Error reading resource ${uri}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw toMcpError(error);
+    }
     
     return {
       contents: [
         {
-          uri: request.params.uri,
+          uri: uri,
           mimeType: "application/json",
-          text: JSON.stringify({ message: "This is a placeholder response" }),
+          text: JSON.stringify(body),
         },
       ],
     };
   });
 }
 
+/**
+ * Set up handlers for resource subscriptions
+ * Subscribed watch resources are notified when a check finds a lending status change,
+ * and the resource list is notified when watches are added or removed
+ */
+export function setupResourceSubscriptionHandlers(server: Server, watchlist: WatchlistStore): void {
+  const subscriptions = new Set<string>();
+  
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    logger(`Subscribe request received for URI: ${request.params.uri}`);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    logger(`Unsubscribe request received for URI: ${request.params.uri}`);
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  
+  const unsubscribe = watchlist.subscribe(event => {
+    const uri = watchResourceUri(event.watch.id);
+    let notification: Promise<void> | undefined;
+    if (event.type !== 'changed') {
+      notification = server.sendResourceListChanged();
+    } else if (subscriptions.has(uri)) {
+      notification = server.sendResourceUpdated({ uri });
+    }
+    notification?.catch(error => logger(`Failed to send resource notification: ${error instanceof Error ? error.message : String(error)}`, 'debug'));
+  });
+  
+  // Stop listening once the client disconnects
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+}
+
+/**
+ * Build the JSON representation of a watchlist entry
+ */
+function describeWatch(watch: WatchEntry) {
+  const { lastStatuses, ...entry } = watch;
+  
+  return {
+    ...entry,
+    uri: watchResourceUri(watch.id),
+    libraries: Object.values(lastStatuses ?? {}),
+  };
+}
+
+/**
+ * Group libraries by library system for directory resources
+ */
+function summarizeSystems(libraries: LibraryInfo[]): { systemid: string; systemname: string; libraryCount: number; uri: string }[] {
+  const systems = new Map<string, { systemid: string; systemname: string; libraryCount: number; uri: string }>();
+  
+  for (const library of libraries) {
+    const system = systems.get(library.systemid);
+    if (system) {
+      system.libraryCount++;
+    } else {
+      systems.set(library.systemid, {
+        systemid: library.systemid,
+        systemname: library.systemname,
+        libraryCount: 1,
+        uri: systemResourceUri(library.systemid),
+      });
+    }
+  }
+  
+  return [...systems.values()];
+}
+
+// ----- Error Handling -----
+
+/**
+ * Build an MCP tool result for a failed tool call
+ * The text content is the JSON error payload with a machine-readable code and retry hint
+ */
+export function errorResult(error: unknown) {
+  const payload = toBookSearchError(error).toJSON();
+  
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(payload)
+      }
+    ],
+    isError: true
+  };
+}
+
+/**
+ * Convert an error raised while serving a protocol request (e.g. resources/read) into an McpError
+ * The typed error payload is attached as the JSON-RPC error data
+ */
+function toMcpError(error: unknown): McpError {
+  const bookSearchError = toBookSearchError(error);
+  const code = ['RESOURCE_NOT_FOUND', 'WATCH_NOT_FOUND', 'INVALID_ARGUMENT', 'UNKNOWN_AREA', 'AMBIGUOUS_AREA', 'UNKNOWN_PROMPT'].includes(bookSearchError.code)
+    ? ErrorCode.InvalidParams
+    : ErrorCode.InternalError;
+  
+  return new McpError(code, bookSearchError.message, bookSearchError.toJSON());
+}
+
+// ----- Tools -----
+
+/**
+ * Default and maximum number of nearest libraries checked by search_books
+ */
+const DEFAULT_NEAREST_LIBRARIES = 5;
+const MAX_NEAREST_LIBRARIES = 20;
+
+/**
+ * Maximum number of ISBNs checked by a single search_books call (all of them go into one availability check)
+ */
+const MAX_SEARCH_ISBNS = 20;
+
+/**
+ * Default and maximum number of candidate editions checked when search_books looks up a title/author
+ */
+const DEFAULT_LOOKUP_CANDIDATES = 3;
+const MAX_LOOKUP_CANDIDATES = 10;
+
+/**
+ * Maximum number of cities (or library systems) searched by a single search_books call
+ */
+const MAX_SEARCH_AREAS = 20;
+
+/**
+ * Maximum number of books checked by import_reading_list, and the number of ISBNs per availability check
+ */
+const MAX_IMPORT_BOOKS = 100;
+const IMPORT_ISBN_BATCH_SIZE = 10;
+
+/**
+ * Build an MCP tool result for a successful tool call
+ * The payload is returned both as JSON text and as structured content, so clients can render it without parsing the text
+ */
+export function jsonResult(payload: Record<string, unknown>) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(payload)
+      }
+    ],
+    structuredContent: payload
+  };
+}
+
+/**
+ * Build an MCP tool result for results exported as CSV, Markdown, GeoJSON or iCalendar
+ * The rendered document is the text content, so it can be pasted or saved as is; the structured content keeps the data
+ */
+function exportedResult(exported: ExportedResults, structuredContent: Record<string, unknown>) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: exported.content
+      }
+    ],
+    structuredContent
+  };
+}
+
+/**
+ * Input schema properties shared by tools that can export availability results
+ */
+const exportProperties = {
+  format: {
+    type: "string",
+    enum: [...EXPORT_FORMATS],
+    description: "Output format: json (default), csv, markdown (a table for docs), geojson (library points for map tools) or ics (visit reminders for libraries where a book can be borrowed now)"
+  },
+  visit_date: {
+    type: "string",
+    description: "Date of the library visit for the ics format (YYYY-MM-DD, default: today)"
+  }
+};
+
+/**
+ * Input schema properties shared by tools that apply the saved user profile
+ */
+const profileProperties = {
+  use_profile: {
+    type: "boolean",
+    description: "Apply the saved profile (default: true): its home area is the default area, preferred libraries come first and excluded categories are left out"
+  }
+};
+
+/**
+ * Input schema properties shared by library listing tools
+ */
+function libraryListProperties(config: ServerConfig) {
+  return {
+    offset: {
+      type: "number",
+      description: "Number of libraries to skip (default: 0)"
+    },
+    limit: {
+      type: "number",
+      description: `Maximum number of libraries to return (default: ${config.defaultResultLimit}, max: ${config.maxResultLimit})`
+    },
+    cursor: {
+      type: "string",
+      description: "nextCursor value from a previous response, to fetch the next page"
+    },
+    category: {
+      type: "array",
+      items: { type: "string", enum: [...LIBRARY_CATEGORIES] },
+      description: "Only return libraries of these categories (SMALL, MEDIUM, LARGE, UNIV, SPECIAL, BM)"
+    },
+    systemid: {
+      type: "array",
+      items: { type: "string" },
+      description: "Only return libraries belonging to these library systems"
+    },
+    name: {
+      type: "string",
+      description: "Only return libraries whose name contains this text"
+    }
+  };
+}
+
 /**
  * Set up handler for listing tools
  */
-export function setupListToolsHandler(server: Server): void {
+export function setupListToolsHandler(server: Server, config: ServerConfig): void {
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     logger("ListTools request received");
     
@@ -77,7 +521,7 @@ export function setupListToolsHandler(server: Server): void {
       tools: [
         {
           name: "search_books",
-          description: "Search for books based on query parameters",
+          description: "Search for books based on query parameters. Multiple ISBNs can be checked at once with isbn_list. Without an ISBN, the title/author (or the query keywords) are resolved to ISBNs first. Searches a city, several cities, a whole prefecture (prefecture only), specific library systems, or the libraries nearest to a location",
           inputSchema: {
             type: "object",
             properties: {
@@ -86,16 +530,57 @@ export function setupListToolsHandler(server: Server): void {
                 type: "string",
                 description: "ISBN of the book to search for"
               },
+              isbn_list: {
+                type: "array",
+                items: { type: "string" },
+                description: `List of ISBNs to search for in a single request (max: ${MAX_SEARCH_ISBNS})`
+              },
+              title: {
+                type: "string",
+                description: "Book title used to look up ISBNs when no ISBN is given (e.g., 'ノルウェイの森')"
+              },
+              author: {
+                type: "string",
+                description: "Author name used to look up ISBNs when no ISBN is given (e.g., '村上春樹')"
+              },
+              max_candidates: {
+                type: "number",
+                description: `Maximum number of candidate editions to check when looking up by title/author (default: ${DEFAULT_LOOKUP_CANDIDATES}, max: ${MAX_LOOKUP_CANDIDATES})`
+              },
+              latitude: {
+                type: "number",
+                description: "Latitude of the user's location. When given with longitude, the nearest libraries are checked instead of prefecture/city"
+              },
+              longitude: {
+                type: "number",
+                description: "Longitude of the user's location"
+              },
+              nearest: {
+                type: "number",
+                description: `Number of nearest libraries to check when latitude/longitude are given (default: ${DEFAULT_NEAREST_LIBRARIES}, max: ${MAX_NEAREST_LIBRARIES})`
+              },
               prefecture: { 
                 type: "string",
-                description: "Prefecture name in Japanese (e.g., '東京都', '千葉県')"
+                description: "Prefecture name in kanji, kana or romaji (e.g., '東京都', '東京', 'Tokyo'). Required unless city/cities, latitude/longitude or systemid are given. Without city/cities the whole prefecture is searched"
               },
               city: { 
                 type: "string",
-                description: "City name in Japanese (e.g., '八千代市', '横浜市')"
-              }
+                description: "City name in kanji, kana or romaji (e.g., '八千代市', '横浜', 'shinjuku'). The prefecture is inferred from the city when omitted"
+              },
+              cities: {
+                type: "array",
+                items: { type: "string" },
+                description: `Several cities in the prefecture to search at once (e.g., ['八千代市', '船橋市'], max: ${MAX_SEARCH_AREAS})`
+              },
+              systemid: {
+                type: "array",
+                items: { type: "string" },
+                description: `Calil library system IDs to search (e.g., ['Chiba_Yachiyo']), instead of prefecture/city (max: ${MAX_SEARCH_AREAS})`
+              },
+              ...profileProperties,
+              ...exportProperties
             },
-            required: ["query", "prefecture", "city"]
+            required: []
           },
         },
         {
@@ -106,8 +591,9 @@ export function setupListToolsHandler(server: Server): void {
             properties: {
               prefecture: { 
                 type: "string",
-                description: "Prefecture name in Japanese (e.g., '東京都', '大阪府')"
+                description: "Prefecture name in kanji, kana or romaji (e.g., '東京都', '大阪', 'Osaka')"
               },
+              ...libraryListProperties(config)
             },
             required: ["prefecture"]
           },
@@ -120,214 +606,1842 @@ export function setupListToolsHandler(server: Server): void {
             properties: {
               prefecture: { 
                 type: "string",
-                description: "Prefecture name in Japanese (e.g., '千葉県', '東京都')"
+                description: "Prefecture name in kanji, kana or romaji (e.g., '千葉県', '東京'). Inferred from the city when omitted"
+              },
+              city: {
+                type: "string",
+                description: "City name in kanji, kana or romaji (e.g., '八千代市', '横浜', 'shinjuku')"
+              },
+              ...libraryListProperties(config),
+              ...profileProperties
+            },
+            required: ["city"]
+          },
+        },
+        {
+          name: "get_library_details",
+          description: "Get the complete record of a single library (address, postal code, phone, website, location, ISIL and FAID) and the other branches of its library system. Look it up by libid, by systemid and libkey, by ISIL code, or by name",
+          inputSchema: {
+            type: "object",
+            properties: {
+              libid: {
+                type: "string",
+                description: "Calil library ID (e.g., '104688')"
+              },
+              systemid: {
+                type: "string",
+                description: "Calil library system ID (e.g., 'Chiba_Yachiyo'). Combine with libkey, or narrow a name search to the system"
+              },
+              libkey: {
+                type: "string",
+                description: "Library key within the system (e.g., '中央'). Requires systemid"
+              },
+              isil: {
+                type: "string",
+                description: "ISIL code of the library (e.g., 'JP-1000720')"
+              },
+              name: {
+                type: "string",
+                description: "Library name; partial or slightly different names are accepted (e.g., '八千代中央図書館')"
+              },
+              prefecture: {
+                type: "string",
+                description: "Prefecture name in kanji, kana or romaji to search in (e.g., '千葉県')"
               },
               city: {
                 type: "string",
-                description: "City name in Japanese (e.g., '八千代市', '横浜市')"
+                description: "City name in kanji, kana or romaji to search in (e.g., '八千代市')"
               }
             },
-            required: ["prefecture", "city"]
+            required: []
           },
-        }
-      ],
-    };
-  });
-}
-
-/**
- * Set up handler for calling tools
- */
-export function setupCallToolHandler(server: Server): void {
-  // Initialize the Calil API service
-  const calilApiService = new CalilApiService();
-  
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    if (request.params.name === "search_books") {
-      logger(`Received search_books request with params: ${JSON.stringify(request.params.arguments)}`);
-      
-      const { query, prefecture, city, isbn } = request.params.arguments as { query: string; prefecture: string; city: string; isbn?: string };
-      
-      // 入力パラメータのバリデーション
-      if (!prefecture || typeof prefecture !== 'string' || !city || typeof city !== 'string') {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ error: "Prefecture and city parameters are required" })
-            }
-          ]
-        };
-      }
-      
-      try {
-        // ISBNの取得（指定がなければクエリから抽出）
-        const targetIsbn = isbn ? isbn : extractIsbnFromQuery(query);
-        
-        if (!targetIsbn || (Array.isArray(targetIsbn) && targetIsbn.length === 0)) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({ error: "Could not determine ISBN from query" })
+        },
+        {
+          name: "find_nearby_libraries",
+          description: "Find libraries near the given coordinates, sorted by distance",
+          inputSchema: {
+            type: "object",
+            properties: {
+              latitude: {
+                type: "number",
+                description: "Latitude (e.g., 35.6896 for 新宿駅)"
+              },
+              longitude: {
+                type: "number",
+                description: "Longitude (e.g., 139.7006 for 新宿駅)"
+              },
+              radius_km: {
+                type: "number",
+                description: "Only return libraries within this distance in kilometers"
+              },
+              limit: {
+                type: "number",
+                description: `Maximum number of libraries to return (default: ${config.defaultResultLimit}, max: ${config.maxResultLimit})`
+              }
+            },
+            required: ["latitude", "longitude"]
+          },
+        },
+        {
+          name: "clear_library_cache",
+          description: "Clear cached library directory data so that the next request fetches fresh data from the Calil API",
+          inputSchema: {
+            type: "object",
+            properties: {
+              prefecture: {
+                type: "string",
+                description: "Only clear entries for this prefecture (clears everything when omitted)"
+              },
+              city: {
+                type: "string",
+                description: "Only clear entries for this city within the prefecture"
               }
-            ]
-          };
-        }
-        
-        // シンプル化された蔵書検索の実行
-        const finalIsbn = Array.isArray(targetIsbn) ? targetIsbn[0] : targetIsbn;
-        logger(`Searching for book with ISBN: ${finalIsbn} in ${prefecture}, ${city}`);
-        
-        const result = await calilApiService.searchBookInCity(finalIsbn, prefecture, city);
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result)
-            }
-          ]
-        };
-      } catch (error) {
-        logger(`Error searching for books: ${error instanceof Error ? error.message : String(error)}`);
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ error: `Failed to search for books: ${error instanceof Error ? error.message : String(error)}` })
-            }
-          ]
-        };
-      }
-    } 
-    else if (request.params.name === "get_libraries_by_prefecture") {
-      logger(`Received get_libraries_by_prefecture request for prefecture: ${request.params.arguments?.prefecture}`);
-      
-      const prefecture = request.params.arguments?.prefecture;
-      
-      if (!prefecture || typeof prefecture !== 'string') {
-        logger(`Invalid prefecture parameter: ${JSON.stringify(request.params.arguments)}`);
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ error: "Prefecture parameter is required" })
             }
-          ]
-        };
+          },
+        },
+        {
+          name: "watch_book",
+          description: "Add a book to the availability watchlist for a city. The current availability is recorded so that check_watches can report what changed since",
+          inputSchema: {
+            type: "object",
+            properties: {
+              isbn: {
+                type: "string",
+                description: "ISBN of the book to watch (ISBN-10 or ISBN-13)"
+              },
+              title: {
+                type: "string",
+                description: "Title shown in the watchlist (optional)"
+              },
+              prefecture: {
+                type: "string",
+                description: "Prefecture name in kanji, kana or romaji (e.g., '千葉県', '東京'). Inferred from the city when omitted (default: the profile's home area, then the configured default prefecture)"
+              },
+              city: {
+                type: "string",
+                description: "City name in kanji, kana or romaji (e.g., '八千代市', '横浜', 'shinjuku') (default: the profile's home area, then the configured default city)"
+              }
+            },
+            required: ["isbn"]
+          },
+        },
+        {
+          name: "list_watches",
+          description: "List the books on the availability watchlist with the lending statuses recorded at the last check",
+          inputSchema: {
+            type: "object",
+            properties: {}
+          },
+        },
+        {
+          name: "unwatch_book",
+          description: "Remove a book from the availability watchlist",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Watch ID returned by watch_book or list_watches"
+              }
+            },
+            required: ["id"]
+          },
+        },
+        {
+          name: "check_watches",
+          description: "Check the availability of watched books again and report lending status changes (e.g. 貸出中 → 貸出可) since the last check",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only check these watch IDs (checks every watch when omitted)"
+              }
+            }
+          },
+        },
+        {
+          name: "import_reading_list",
+          description: "Import a reading list (CSV/TSV with a header row, BibTeX, RIS, ブクログ or 読書メーター export, or one book per line), extract and validate the ISBNs, and check where each book can be borrowed now in the given area",
+          inputSchema: {
+            type: "object",
+            properties: {
+              content: {
+                type: "string",
+                description: "Contents of the exported reading list"
+              },
+              format: {
+                type: "string",
+                enum: ["auto", ...READING_LIST_FORMATS],
+                description: "Format of the reading list (default: auto, detected from the content)"
+              },
+              prefecture: {
+                type: "string",
+                description: "Prefecture name in kanji, kana or romaji (e.g., '千葉県', '東京'). Without city/cities the whole prefecture is searched"
+              },
+              city: {
+                type: "string",
+                description: "City name in kanji, kana or romaji (e.g., '八千代市', '横浜', 'shinjuku')"
+              },
+              cities: {
+                type: "array",
+                items: { type: "string" },
+                description: `Several cities in the prefecture to search at once (max: ${MAX_SEARCH_AREAS})`
+              },
+              systemid: {
+                type: "array",
+                items: { type: "string" },
+                description: `Calil library system IDs to search, instead of prefecture/city (max: ${MAX_SEARCH_AREAS})`
+              }
+            },
+            required: ["content"]
+          },
+        },
+        {
+          name: "export_results",
+          description: "Render results returned by search_books as CSV, a Markdown table, GeoJSON points of the libraries (for map tools) or an iCalendar file of library visit reminders",
+          inputSchema: {
+            type: "object",
+            properties: {
+              results: {
+                description: "The search_books result to export (the JSON object or its text), or an array of per-book results"
+              },
+              ...exportProperties
+            },
+            required: ["results", "format"]
+          },
+        },
+        {
+          name: "plan_library_visits",
+          description: "Plan which libraries to visit to borrow a list of books: picks the fewest libraries where the books can be borrowed now, and orders them by straight-line distance from the starting point",
+          inputSchema: {
+            type: "object",
+            properties: {
+              isbn_list: {
+                type: "array",
+                items: { type: "string" },
+                description: `ISBNs of the books to borrow (max: ${MAX_PLANNED_BOOKS})`
+              },
+              latitude: {
+                type: "number",
+                description: "Latitude of the starting point. Without prefecture/city/cities/systemid, the libraries nearest to it are searched"
+              },
+              longitude: {
+                type: "number",
+                description: "Longitude of the starting point"
+              },
+              nearest: {
+                type: "number",
+                description: `Number of nearest libraries to search when only the starting point is given (default: ${DEFAULT_NEAREST_LIBRARIES}, max: ${MAX_NEAREST_LIBRARIES})`
+              },
+              prefecture: {
+                type: "string",
+                description: "Prefecture name in kanji, kana or romaji (e.g., '千葉県', '東京'). Without city/cities the whole prefecture is searched"
+              },
+              city: {
+                type: "string",
+                description: "City name in kanji, kana or romaji (e.g., '八千代市', '横浜', 'shinjuku')"
+              },
+              cities: {
+                type: "array",
+                items: { type: "string" },
+                description: `Several cities in the prefecture to search at once (max: ${MAX_SEARCH_AREAS})`
+              },
+              systemid: {
+                type: "array",
+                items: { type: "string" },
+                description: `Calil library system IDs to search, instead of prefecture/city (max: ${MAX_SEARCH_AREAS})`
+              }
+            },
+            required: ["isbn_list"]
+          },
+        },
+        {
+          name: "get_profile",
+          description: "Get the saved user profile: home area used when search_books or get_libraries_by_city are called without an area, preferred libraries and library systems listed first in results, and library categories left out of results",
+          inputSchema: {
+            type: "object",
+            properties: {}
+          },
+        },
+        {
+          name: "update_profile",
+          description: "Update the saved user profile. Only the given fields are changed",
+          inputSchema: {
+            type: "object",
+            properties: {
+              prefecture: {
+                type: "string",
+                description: "Prefecture of the home area in kanji, kana or romaji (e.g., '千葉県'). Inferred from the city when omitted"
+              },
+              city: {
+                type: "string",
+                description: "City of the home area in kanji, kana or romaji (e.g., '八千代市'). Without a city the whole prefecture is the home area"
+              },
+              clear_home: {
+                type: "boolean",
+                description: "Remove the home area"
+              },
+              add_libraries: {
+                type: "array",
+                items: { type: "string" },
+                description: "Calil library IDs to add to the preferred libraries (e.g., ['104688'])"
+              },
+              remove_libraries: {
+                type: "array",
+                items: { type: "string" },
+                description: "Calil library IDs to remove from the preferred libraries"
+              },
+              add_systems: {
+                type: "array",
+                items: { type: "string" },
+                description: "Calil library system IDs to add to the preferred systems (e.g., ['Chiba_Yachiyo'])"
+              },
+              remove_systems: {
+                type: "array",
+                items: { type: "string" },
+                description: "Calil library system IDs to remove from the preferred systems"
+              },
+              excluded_categories: {
+                type: "array",
+                items: { type: "string", enum: [...LIBRARY_CATEGORIES] },
+                description: "Library categories to leave out of results, replacing the current list (e.g., ['BM', 'UNIV']; [] to include every category)"
+              }
+            }
+          },
+        },
+        {
+          name: "reset_profile",
+          description: "Clear the saved user profile",
+          inputSchema: {
+            type: "object",
+            properties: {}
+          },
+        }
+      ],
+    };
+  });
+}
+
+/**
+ * Set up handler for calling tools
+ */
+export function setupCallToolHandler(
+  server: Server,
+  calilApiService: CalilApiService,
+  bookLookupProvider: BookLookupProvider,
+  serverConfig: ServerConfig,
+  watchlist: WatchlistStore,
+  profiles: ProfileStore = new ProfileStore()
+): void {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    // プロフィールの自宅の地域を地域のデフォルト値にする（use_profile: false の場合は設定のデフォルト値のまま）
+    const profile = profiles.get();
+    const useProfile = request.params.arguments?.use_profile !== false;
+    const config = useProfile ? withProfileDefaults(serverConfig, profile) : serverConfig;
+    
+    if (request.params.name === "search_books") {
+      logger(`Received search_books request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const checkOptions = availabilityCheckOptions(server, request.params._meta?.progressToken, extra.signal);
+      
+      const { query, isbn, isbn_list, title, author, max_candidates, nearest, use_profile } = request.params.arguments as {
+        query?: string;
+        isbn?: string;
+        isbn_list?: string[];
+        title?: string;
+        author?: string;
+        max_candidates?: number;
+        nearest?: number;
+        use_profile?: boolean;
+      };
+      
+      // 入力パラメータのバリデーション（緯度経度が指定された場合は近くの図書館で検索）
+      const coordinates = parseCoordinates(request.params.arguments);
+      if (coordinates && 'error' in coordinates) {
+        return errorResult(new InvalidArgumentError(coordinates.error));
+      }
+      
+      const area = coordinates ? null : parseSearchArea(request.params.arguments, config);
+      if (area && 'error' in area) {
+        return errorResult(new InvalidArgumentError(area.error));
+      }
+      
+      if (nearest !== undefined && (typeof nearest !== 'number' || !Number.isInteger(nearest) || nearest < 1 || nearest > MAX_NEAREST_LIBRARIES)) {
+        return errorResult(new InvalidArgumentError(`nearest must be an integer between 1 and ${MAX_NEAREST_LIBRARIES}`));
+      }
+      
+      if (max_candidates !== undefined && (typeof max_candidates !== 'number' || !Number.isInteger(max_candidates) || max_candidates < 1 || max_candidates > MAX_LOOKUP_CANDIDATES)) {
+        return errorResult(new InvalidArgumentError(`max_candidates must be an integer between 1 and ${MAX_LOOKUP_CANDIDATES}`));
       }
       
+      if (isbn_list !== undefined && (!Array.isArray(isbn_list) || isbn_list.some(item => typeof item !== 'string'))) {
+        return errorResult(new InvalidArgumentError("isbn_list must be an array of strings"));
+      }
+      
+      if (use_profile !== undefined && typeof use_profile !== 'boolean') {
+        return errorResult(new InvalidArgumentError("use_profile must be a boolean"));
+      }
+      // プロフィールのよく使う図書館を先頭に並べ、除外する種別の図書館を除く
+      const ranked = <T extends BookAvailabilityResult>(result: T): T => (useProfile ? rankAvailability(result, profile) : result);
+      
+      const exportOptions = parseExportOptions(request.params.arguments);
+      if ('error' in exportOptions) {
+        return errorResult(new InvalidArgumentError(exportOptions.error));
+      }
+      // 出力形式の指定があれば、検索結果を書き出して返す
+      const searchResult = (payload: Record<string, unknown>, results: BookAvailabilityResult[]) =>
+        exportOptions.format === 'json'
+          ? jsonResult(payload)
+          : exportedResult(exportResults(results, exportOptions.format, exportOptions.options), payload);
+      
       try {
-        logger(`Fetching libraries for prefecture: ${prefecture}`);
-        const libraries = await calilApiService.getLibraries(prefecture);
+        // 地名を正式名称に正規化（緯度経度・図書館システムを指定した場合は不要）
+        const searchArea: LibrarySearchArea | null = area && !area.systemids
+          ? normalizeArea(area.prefecture, area.cities ?? [], request.params.arguments?.prefecture === undefined)
+          : area;
+        
+        // 書誌検索より前に検索地域を確認する（地域がなければ外部への問い合わせは不要）
+        if (!coordinates && !searchArea) {
+          throw new InvalidArgumentError("Prefecture parameter (or latitude and longitude, or systemid) is required");
+        }
+        
+        // ISBNの取得（isbn / isbn_list の指定がなければクエリから抽出）し、ISBN-13に正規化
+        const { valid, rejected } = collectTargetIsbns(query, isbn, isbn_list);
+        let targetIsbns = valid.map(parsed => parsed.isbn13);
+        const titles: Record<string, string> = {};
+        let lookup: { provider: string; candidates: BookCandidate[] } | undefined;
+        
+        if (rejected.length > 0) {
+          logger(`Rejected ISBN candidates: ${JSON.stringify(rejected)}`);
+        }
+        
+        if (targetIsbns.length > MAX_SEARCH_ISBNS) {
+          throw new InvalidArgumentError(`At most ${MAX_SEARCH_ISBNS} books can be searched at once`, { books: targetIsbns.length });
+        }
+        
+        // 有効なISBNがない場合、または isbn / isbn_list なしで title / author が指定された場合は、
+        // タイトル・著者・キーワードから書誌検索でISBNを解決する
+        // （クエリ中の電話番号などの数字列より、明示された書名・著者を優先する）
+        const explicitIsbns = isbn !== undefined || isbn_list !== undefined;
+        const lookupQuery = targetIsbns.length === 0 || (!explicitIsbns && (title || author))
+          ? buildLookupQuery(query, title, author, max_candidates)
+          : null;
+        
+        if (lookupQuery) {
+          logger(`Looking up ISBNs with ${bookLookupProvider.name}: ${JSON.stringify(lookupQuery)}`);
+          
+          const candidates = await bookLookupProvider.search(lookupQuery, { signal: extra.signal });
+          lookup = { provider: bookLookupProvider.name, candidates };
+          targetIsbns = candidates.map(candidate => candidate.isbn);
+          for (const candidate of candidates) {
+            titles[candidate.isbn] = candidate.title;
+          }
+          
+          if (targetIsbns.length === 0) {
+            return errorResult(rejected.length > 0
+              ? new InvalidIsbnError("No valid ISBN found in the request", { rejectedIsbns: rejected, lookup })
+              : new BookNotFoundError("No books found matching the title/author", { lookup }));
+          }
+        }
+        
+        if (targetIsbns.length === 0) {
+          return errorResult(rejected.length > 0
+            ? new InvalidIsbnError("No valid ISBN found in the request", { rejectedIsbns: rejected })
+            : new InvalidArgumentError("Could not determine ISBN from query"));
+        }
+        
+        // 緯度経度が指定された場合は、近くのN館で検索
+        if (coordinates) {
+          const nearestCount = nearest ?? DEFAULT_NEAREST_LIBRARIES;
+          logger(`Searching for ${targetIsbns.join(',')} in ${nearestCount} libraries near ${coordinates.latitude}, ${coordinates.longitude}`);
+          
+          const result = await calilApiService.searchBooksNearby(targetIsbns, coordinates, nearestCount, titles, checkOptions);
+          const results = result.results.map(ranked);
+          const extras = {
+            ...(rejected.length > 0 && { rejectedIsbns: rejected }),
+            ...(lookup && { lookup })
+          };
+          
+          return searchResult(targetIsbns.length === 1
+            ? { ...results[0], latitude: coordinates.latitude, longitude: coordinates.longitude, ...extras }
+            : { query: query ?? '', latitude: coordinates.latitude, longitude: coordinates.longitude, ...result, results, ...extras }, results);
+        }
+        
+        // 以降は地域の図書館で検索（バリデーション済み）
+        if (!searchArea) {
+          throw new InvalidArgumentError("Prefecture parameter (or latitude and longitude, or systemid) is required");
+        }
+        
+        // 都道府県全体・複数の市区町村・図書館システムの場合は、図書館システムを分割して検索
+        if (searchArea.systemids || !searchArea.cities || searchArea.cities.length > 1) {
+          logger(`Searching for ${targetIsbns.join(',')} in area: ${JSON.stringify(searchArea)}`);
+          
+          const { results: areaResults, ...areaResult } = await calilApiService.searchBooksInArea(targetIsbns, searchArea, titles, checkOptions);
+          const results = areaResults.map(ranked);
+          const extras = {
+            ...(rejected.length > 0 && { rejectedIsbns: rejected }),
+            ...(lookup && { lookup })
+          };
+          
+          return searchResult(targetIsbns.length === 1
+            ? { ...results[0], area: searchArea, ...areaResult, ...extras }
+            : { query: query ?? '', area: searchArea, results, ...areaResult, ...extras }, results);
+        }
+        
+        const cityArea = { prefecture: searchArea.prefecture as string, city: searchArea.cities[0] };
+        
+        // 単一ISBNの場合は従来どおりの形式で返す
+        if (targetIsbns.length === 1) {
+          logger(`Searching for book with ISBN: ${targetIsbns[0]} in ${cityArea.prefecture}, ${cityArea.city}`);
+          
+          const result = ranked(await calilApiService.searchBookInCity(targetIsbns[0], cityArea.prefecture, cityArea.city, titles[targetIsbns[0]], checkOptions));
+          
+          return searchResult({
+            ...result,
+            ...(rejected.length > 0 && { rejectedIsbns: rejected }),
+            ...(lookup && { lookup })
+          }, [result]);
+        }
+        
+        // 複数ISBNは1回の蔵書検索セッションでまとめて検索
+        logger(`Searching for ${targetIsbns.length} books (${targetIsbns.join(',')}) in ${cityArea.prefecture}, ${cityArea.city}`);
+        
+        const result = await calilApiService.searchBooksInCity(targetIsbns, cityArea.prefecture, cityArea.city, titles, checkOptions);
+        const results = result.results.map(ranked);
+        
+        return searchResult({
+          query: query ?? '',
+          ...result,
+          results,
+          ...(rejected.length > 0 && { rejectedIsbns: rejected }),
+          ...(lookup && { lookup })
+        }, results);
+      } catch (error) {
+        logger(`Error searching for books: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    } 
+    else if (request.params.name === "get_libraries_by_prefecture") {
+      logger(`Received get_libraries_by_prefecture request for prefecture: ${request.params.arguments?.prefecture}`);
+      
+      const prefecture = request.params.arguments?.prefecture ?? config.defaultPrefecture;
+      
+      if (!prefecture || typeof prefecture !== 'string') {
+        logger(`Invalid prefecture parameter: ${JSON.stringify(request.params.arguments)}`);
+        
+        return errorResult(new InvalidArgumentError("Prefecture parameter is required"));
+      }
+      
+      const listOptions = parseLibraryListOptions(request.params.arguments, config);
+      if ('error' in listOptions) {
+        return errorResult(new InvalidArgumentError(listOptions.error));
+      }
+      
+      try {
+        const { prefecture: normalizedPrefecture } = normalizeArea(prefecture, []);
+        
+        logger(`Fetching libraries for prefecture: ${normalizedPrefecture}`);
+        const { libraries, cache } = await calilApiService.getLibrariesWithCacheStatus(normalizedPrefecture);
+        const page = paginate(filterLibraries(libraries, listOptions.filter), listOptions.page);
         
         const response = {
-          prefecture: prefecture,
+          prefecture: normalizedPrefecture,
           libraryCount: libraries.length,
-          libraries: libraries.slice(0, 10) // 最初の10件に制限
+          total: page.total,
+          offset: page.offset,
+          limit: page.limit,
+          nextCursor: page.nextCursor,
+          libraries: page.items,
+          cache: cache
         };
         
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response)
-            }
-          ]
-        };
+        return jsonResult(response);
       } catch (error) {
-        logger(`Error fetching libraries: ${error instanceof Error ? error.message : String(error)}`);
+        logger(`Error fetching libraries: ${error instanceof Error ? error.message : String(error)}`, 'error');
         
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ error: `Failed to fetch libraries: ${error instanceof Error ? error.message : String(error)}` })
-            }
-          ]
-        };
+        return errorResult(error);
       }
     }
     else if (request.params.name === "get_libraries_by_city") {
       logger(`Received get_libraries_by_city request for prefecture: ${request.params.arguments?.prefecture} and city: ${request.params.arguments?.city}`);
       
-      const prefecture = request.params.arguments?.prefecture;
-      const city = request.params.arguments?.city;
+      const { prefecture, city } = resolveArea(request.params.arguments, config);
       
-      if (!prefecture || typeof prefecture !== 'string' || !city || typeof city !== 'string') {
+      if ((prefecture !== undefined && typeof prefecture !== 'string') || !city || typeof city !== 'string') {
         logger(`Invalid prefecture or city parameter: ${JSON.stringify(request.params.arguments)}`);
         
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ error: "Prefecture and city parameters are required" })
-            }
-          ]
+        return errorResult(new InvalidArgumentError("City parameter is required"));
+      }
+      
+      const listOptions = parseLibraryListOptions(request.params.arguments, config);
+      if ('error' in listOptions) {
+        return errorResult(new InvalidArgumentError(listOptions.error));
+      }
+      
+      const { use_profile } = request.params.arguments ?? {};
+      if (use_profile !== undefined && typeof use_profile !== 'boolean') {
+        return errorResult(new InvalidArgumentError("use_profile must be a boolean"));
+      }
+      
+      try {
+        const area = normalizeArea(prefecture || undefined, [city], request.params.arguments?.prefecture === undefined);
+        const [normalizedCity] = area.cities as string[];
+        
+        logger(`Fetching libraries for prefecture: ${area.prefecture} and city: ${normalizedCity}`);
+        const { libraries, cache } = await calilApiService.getLibrariesWithCacheStatus(area.prefecture, normalizedCity);
+        // よく使う図書館を先頭に並べる（種別で絞り込む場合は、プロフィールの除外する種別は使わない）
+        const ordered = useProfile ? rankLibraries(libraries, profile, listOptions.filter.categories === undefined) : libraries;
+        const page = paginate(filterLibraries(ordered, listOptions.filter), listOptions.page);
+        
+        const response = {
+          prefecture: area.prefecture,
+          city: normalizedCity,
+          libraryCount: libraries.length,
+          total: page.total,
+          offset: page.offset,
+          limit: page.limit,
+          nextCursor: page.nextCursor,
+          libraries: page.items,
+          cache: cache
+        };
+        
+        return jsonResult(response);
+      } catch (error) {
+        logger(`Error fetching libraries: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    }
+    else if (request.params.name === "get_library_details") {
+      logger(`Received get_library_details request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const lookup = parseLibraryLookup(request.params.arguments);
+      if ('error' in lookup) {
+        return errorResult(new InvalidArgumentError(lookup.error));
+      }
+      
+      const { prefecture, city } = resolveArea(request.params.arguments, config);
+      if ((prefecture !== undefined && typeof prefecture !== 'string') || (city !== undefined && typeof city !== 'string')) {
+        return errorResult(new InvalidArgumentError("prefecture and city must be strings"));
+      }
+      
+      try {
+        // 図書館APIは図書館ID・ISILでの検索に対応していないため、図書館システム・地域の図書館一覧、
+        // どちらもなければ取得済みの図書館から探す
+        const known = lookup.libid ? calilApiService.findKnownLibrary(lookup.libid) : undefined;
+        let libraries: LibraryInfo[];
+        let searchedIn: Record<string, unknown>;
+        
+        if (known) {
+          libraries = [known];
+          searchedIn = { loaded: true };
+        } else if (lookup.systemid) {
+          libraries = await calilApiService.getLibrariesBySystem(lookup.systemid);
+          searchedIn = { systemid: lookup.systemid };
+        } else if (prefecture || city) {
+          const area = normalizeArea(prefecture || undefined, city ? [city] : [], request.params.arguments?.prefecture === undefined);
+          libraries = await calilApiService.getLibraries(area.prefecture, area.cities?.[0]);
+          searchedIn = { prefecture: area.prefecture, ...(area.cities && { city: area.cities[0] }) };
+        } else {
+          libraries = calilApiService.getKnownLibraries();
+          searchedIn = { loaded: true };
+        }
+        
+        const { matches, similar } = findLibraries(libraries, lookup);
+        
+        if (matches.length === 0) {
+          throw new LibraryNotFoundError(
+            searchedIn.loaded
+              ? "No library found among the libraries loaded so far. Specify prefecture/city or systemid to search the Calil library directory"
+              : "No library found matching the request",
+            { ...lookup, searchedIn }
+          );
+        }
+        if (matches.length > 1) {
+          throw new AmbiguousLibraryError(`Several libraries match: ${lookup.name ?? lookup.isil ?? ''}`, {
+            ...lookup,
+            candidates: matches.slice(0, 10).map(summarizeLibrary)
+          });
+        }
+        
+        // 同じ図書館システムのほかの図書館（分館など）
+        const library = matches[0];
+        const systemLibraries = await calilApiService.getLibrariesBySystem(library.systemid);
+        
+        return jsonResult({
+          library: {
+            ...library,
+            uri: libraryResourceUri(library.libid),
+            systemUri: systemResourceUri(library.systemid),
+            prefectureUri: prefectureResourceUri(library.pref)
+          },
+          system: {
+            systemid: library.systemid,
+            systemname: library.systemname,
+            libraryCount: systemLibraries.length,
+            uri: systemResourceUri(library.systemid)
+          },
+          siblings: systemLibraries.filter(sibling => sibling.libid !== library.libid).map(summarizeLibrary),
+          ...(similar.length > 0 && { otherMatches: similar.slice(0, 5).map(summarizeLibrary) })
+        });
+      } catch (error) {
+        logger(`Error getting library details: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    }
+    else if (request.params.name === "find_nearby_libraries") {
+      logger(`Received find_nearby_libraries request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const coordinates = parseCoordinates(request.params.arguments);
+      const radiusKm = request.params.arguments?.radius_km;
+      const limit = request.params.arguments?.limit;
+      
+      if (!coordinates || 'error' in coordinates) {
+        return errorResult(new InvalidArgumentError(coordinates ? coordinates.error : "Latitude and longitude parameters are required"));
+      }
+      
+      if (radiusKm !== undefined && (typeof radiusKm !== 'number' || radiusKm <= 0)) {
+        return errorResult(new InvalidArgumentError("radius_km must be a positive number"));
+      }
+      
+      if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > config.maxResultLimit)) {
+        return errorResult(new InvalidArgumentError(`limit must be an integer between 1 and ${config.maxResultLimit}`));
+      }
+      
+      try {
+        const libraries = await calilApiService.getNearbyLibraries(coordinates, limit ?? config.defaultResultLimit, radiusKm);
+        
+        const response = {
+          latitude: coordinates.latitude,
+          longitude: coordinates.longitude,
+          radiusKm: radiusKm ?? null,
+          libraryCount: libraries.length,
+          libraries: libraries
         };
+        
+        return jsonResult(response);
+      } catch (error) {
+        logger(`Error fetching nearby libraries: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    }
+    else if (request.params.name === "clear_library_cache") {
+      logger(`Received clear_library_cache request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const prefecture = request.params.arguments?.prefecture;
+      const city = request.params.arguments?.city;
+      
+      if ((prefecture !== undefined && typeof prefecture !== 'string') || (city !== undefined && typeof city !== 'string')) {
+        return errorResult(new InvalidArgumentError("Prefecture and city must be strings"));
+      }
+      
+      if (city && !prefecture) {
+        return errorResult(new InvalidArgumentError("Prefecture parameter is required when city is specified"));
+      }
+      
+      try {
+        const area = prefecture ? normalizeArea(prefecture, city ? [city] : []) : undefined;
+        const normalizedCity = area?.cities?.[0];
+        const removed = calilApiService.clearLibraryCache(area?.prefecture, normalizedCity);
+        
+        return jsonResult({ cleared: removed, prefecture: area?.prefecture ?? null, city: normalizedCity ?? null });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+    else if (request.params.name === "watch_book") {
+      logger(`Received watch_book request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const { isbn, title } = request.params.arguments ?? {};
+      const { prefecture, city } = resolveArea(request.params.arguments, config);
+      
+      if (typeof isbn !== 'string' || isbn === '') {
+        return errorResult(new InvalidArgumentError("isbn parameter is required"));
+      }
+      if (title !== undefined && typeof title !== 'string') {
+        return errorResult(new InvalidArgumentError("title must be a string"));
+      }
+      if ((prefecture !== undefined && typeof prefecture !== 'string') || !city || typeof city !== 'string') {
+        return errorResult(new InvalidArgumentError("City parameter is required"));
+      }
+      
+      const { valid, rejected } = validateIsbns([isbn]);
+      if (valid.length === 0) {
+        return errorResult(new InvalidIsbnError("No valid ISBN found in the request", { rejectedIsbns: rejected }));
+      }
+      
+      try {
+        // 現在の貸出状況を確認してから登録する（図書館のない地域はここでエラーになる）
+        const isbn13 = valid[0].isbn13;
+        const area = normalizeArea(prefecture || undefined, [city], request.params.arguments?.prefecture === undefined);
+        const [normalizedCity] = area.cities as string[];
+        const result = await calilApiService.searchBookInCity(isbn13, area.prefecture, normalizedCity, title || undefined, { signal: extra.signal });
+        const { watch, created } = watchlist.add({ isbn: isbn13, title: title || undefined, prefecture: area.prefecture, city: normalizedCity });
+        const checked = watchlist.recordCheck(watch.id, result);
+        
+        return jsonResult({
+          created,
+          watch: describeWatch(checked.watch),
+          summary: result.summary,
+          ...(!checked.firstCheck && { changes: checked.changes })
+        });
+      } catch (error) {
+        logger(`Error registering watch: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    }
+    else if (request.params.name === "list_watches") {
+      logger("Received list_watches request");
+      
+      const watches = watchlist.list();
+      
+      return jsonResult({ total: watches.length, watches: watches.map(describeWatch) });
+    }
+    else if (request.params.name === "unwatch_book") {
+      logger(`Received unwatch_book request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const id = request.params.arguments?.id;
+      if (typeof id !== 'string' || id === '') {
+        return errorResult(new InvalidArgumentError("id parameter is required"));
+      }
+      
+      const removed = watchlist.remove(id);
+      if (!removed) {
+        return errorResult(new WatchNotFoundError(id));
+      }
+      
+      return jsonResult({ removed: describeWatch(removed) });
+    }
+    else if (request.params.name === "check_watches") {
+      logger(`Received check_watches request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const ids = request.params.arguments?.id;
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(item => typeof item === 'string'))) {
+        return errorResult(new InvalidArgumentError("id must be an array of watch IDs"));
+      }
+      const unknownId = ids?.find(id => !watchlist.get(id));
+      if (unknownId !== undefined) {
+        return errorResult(new WatchNotFoundError(unknownId));
+      }
+      
+      const progressToken = request.params._meta?.progressToken;
+      
+      try {
+        const results = await checkWatches(watchlist, calilApiService, {
+          ids,
+          signal: extra.signal,
+          // 監視対象を1件確認するたびに進捗を通知する
+          onChecked: progressToken === undefined ? undefined : (checked, total) => {
+            server.notification({
+              method: "notifications/progress",
+              params: { progressToken, progress: checked, total }
+            }).catch(error => logger(`Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`, 'warn'));
+          }
+        });
+        
+        return jsonResult({
+          checked: results.length,
+          changed: results.filter(result => result.changes.length > 0).length,
+          results: results.map(result => ({
+            id: result.watch.id,
+            uri: watchResourceUri(result.watch.id),
+            isbn: result.watch.isbn,
+            ...(result.watch.title && { title: result.watch.title }),
+            prefecture: result.watch.prefecture,
+            city: result.watch.city,
+            checkedAt: result.watch.lastCheckedAt ?? null,
+            firstCheck: result.firstCheck,
+            changes: result.changes,
+            ...(result.error && { error: result.error })
+          }))
+        });
+      } catch (error) {
+        logger(`Error checking watches: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    }
+    
+    else if (request.params.name === "import_reading_list") {
+      const { content, format } = request.params.arguments ?? {};
+      logger(`Received import_reading_list request (format: ${format ?? 'auto'}, ${typeof content === 'string' ? content.length : 0} characters)`);
+      
+      if (typeof content !== 'string' || content.trim() === '') {
+        return errorResult(new InvalidArgumentError("content parameter is required"));
+      }
+      if (format !== undefined && format !== 'auto' && !READING_LIST_FORMATS.includes(format as ReadingListFormat)) {
+        return errorResult(new InvalidArgumentError(`format must be one of: auto, ${READING_LIST_FORMATS.join(', ')}`));
+      }
+      
+      const area = parseSearchArea(request.params.arguments, config);
+      if ('error' in area) {
+        return errorResult(new InvalidArgumentError(area.error));
+      }
+      
+      const progressToken = request.params._meta?.progressToken;
+      
+      try {
+        const searchArea: LibrarySearchArea = area.systemids
+          ? area
+          : normalizeArea(area.prefecture, area.cities ?? [], request.params.arguments?.prefecture === undefined);
+        const list = parseReadingList(content, format === undefined || format === 'auto' ? undefined : format as ReadingListFormat);
+        const isbns = [...new Set(list.entries.flatMap(entry => (entry.isbn ? [entry.isbn] : [])))];
+        
+        if (isbns.length === 0) {
+          throw new InvalidIsbnError("No valid ISBN found in the reading list", {
+            format: list.format,
+            entries: list.entries.length,
+            rejectedIsbns: list.entries.flatMap(entry => entry.rejected)
+          });
+        }
+        if (isbns.length > MAX_IMPORT_BOOKS) {
+          throw new InvalidArgumentError(`At most ${MAX_IMPORT_BOOKS} books can be checked at once`, { books: isbns.length });
+        }
+        
+        // ISBNを分割して蔵書検索し、分割ごとに進捗を通知する
+        const titles: Record<string, string> = {};
+        for (const entry of list.entries) {
+          if (entry.isbn && entry.title) {
+            titles[entry.isbn] ??= entry.title;
+          }
+        }
+        const results = new Map<string, BookAvailabilityResult>();
+        let libraryCount = 0;
+        
+        for (let i = 0; i < isbns.length; i += IMPORT_ISBN_BATCH_SIZE) {
+          const checked = await calilApiService.searchBooksInArea(isbns.slice(i, i + IMPORT_ISBN_BATCH_SIZE), searchArea, titles, { signal: extra.signal });
+          for (const result of checked.results) {
+            results.set(result.isbn, result);
+          }
+          libraryCount = checked.libraryCount;
+          
+          if (progressToken !== undefined) {
+            server.notification({
+              method: "notifications/progress",
+              params: { progressToken, progress: results.size, total: isbns.length }
+            }).catch(error => logger(`Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`, 'warn'));
+          }
+        }
+        
+        const books = list.entries.map(entry => describeReadingListEntry(entry, entry.isbn ? results.get(entry.isbn) : undefined));
+        
+        return jsonResult({
+          format: list.format,
+          area: searchArea,
+          libraryCount,
+          total: list.entries.length,
+          checked: isbns.length,
+          availableNow: books.filter(book => book.status === 'available').length,
+          books
+        });
+      } catch (error) {
+        logger(`Error importing reading list: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    }
+    
+    else if (request.params.name === "export_results") {
+      logger(`Received export_results request (format: ${request.params.arguments?.format})`);
+      
+      if (request.params.arguments?.format === undefined) {
+        return errorResult(new InvalidArgumentError("format parameter is required"));
+      }
+      const exportOptions = parseExportOptions(request.params.arguments);
+      if ('error' in exportOptions) {
+        return errorResult(new InvalidArgumentError(exportOptions.error));
+      }
+      
+      const results = toExportableResults(request.params.arguments?.results);
+      if (!results) {
+        return errorResult(new InvalidArgumentError("results must be a search_books result (or an array of per-book results) with isbn and availability"));
+      }
+      
+      const exported = exportResults(results, exportOptions.format, exportOptions.options);
+      return exportedResult(exported, {
+        format: exported.format,
+        mimeType: exported.mimeType,
+        fileName: exported.fileName,
+        books: results.length,
+        content: exported.content
+      });
+    }
+    
+    else if (request.params.name === "plan_library_visits") {
+      logger(`Received plan_library_visits request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const { isbn_list, nearest } = request.params.arguments ?? {};
+      
+      if (!Array.isArray(isbn_list) || isbn_list.length === 0 || isbn_list.some(item => typeof item !== 'string')) {
+        return errorResult(new InvalidArgumentError("isbn_list must be a non-empty array of strings"));
+      }
+      
+      const start = parseCoordinates(request.params.arguments);
+      if (start && 'error' in start) {
+        return errorResult(new InvalidArgumentError(start.error));
+      }
+      
+      if (nearest !== undefined && (typeof nearest !== 'number' || !Number.isInteger(nearest) || nearest < 1 || nearest > MAX_NEAREST_LIBRARIES)) {
+        return errorResult(new InvalidArgumentError(`nearest must be an integer between 1 and ${MAX_NEAREST_LIBRARIES}`));
+      }
+      
+      // 地域の指定がなく出発地点がある場合は、出発地点の近くの図書館で検索
+      const hasArea = ['prefecture', 'city', 'cities', 'systemid'].some(key => request.params.arguments?.[key] !== undefined);
+      const area = start && !hasArea ? null : parseSearchArea(request.params.arguments, config);
+      if (area && 'error' in area) {
+        return errorResult(new InvalidArgumentError(area.error));
+      }
+      
+      const checkOptions = availabilityCheckOptions(server, request.params._meta?.progressToken, extra.signal);
+      
+      try {
+        const { valid, rejected } = collectTargetIsbns(undefined, undefined, isbn_list);
+        const isbns = [...new Set(valid.map(parsed => parsed.isbn13))];
+        
+        if (isbns.length === 0) {
+          throw new InvalidIsbnError("No valid ISBN found in the request", { rejectedIsbns: rejected });
+        }
+        if (isbns.length > MAX_PLANNED_BOOKS) {
+          throw new InvalidArgumentError(`At most ${MAX_PLANNED_BOOKS} books can be planned at once`, { books: isbns.length });
+        }
+        
+        let searched: { area: LibrarySearchArea; libraryCount: number } | { nearest: number };
+        let results: BookAvailabilityResult[];
+        
+        if (area) {
+          const searchArea: LibrarySearchArea = area.systemids
+            ? area
+            : normalizeArea(area.prefecture, area.cities ?? [], request.params.arguments?.prefecture === undefined);
+          const checked = await calilApiService.searchBooksInArea(isbns, searchArea, {}, checkOptions);
+          searched = { area: searchArea, libraryCount: checked.libraryCount };
+          results = checked.results;
+        } else {
+          const nearestCount = nearest ?? DEFAULT_NEAREST_LIBRARIES;
+          searched = { nearest: nearestCount };
+          results = (await calilApiService.searchBooksNearby(isbns, start as Coordinates, nearestCount, {}, checkOptions)).results;
+        }
+        
+        const plan = planLibraryVisits(results, start ?? undefined);
+        const pendingSystems = [...new Set(results.flatMap(result => result.pendingSystems ?? []))];
+        
+        return jsonResult({
+          ...searched,
+          ...(start && { start }),
+          books: isbns.length,
+          covered: isbns.length - plan.uncovered.length,
+          ...plan,
+          ...(pendingSystems.length > 0 && { partial: true, pendingSystems }),
+          ...(rejected.length > 0 && { rejectedIsbns: rejected })
+        });
+      } catch (error) {
+        logger(`Error planning library visits: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        
+        return errorResult(error);
+      }
+    }
+    else if (request.params.name === "get_profile") {
+      logger("Received get_profile request");
+      
+      return jsonResult({ profile: describeProfile(profile, calilApiService) });
+    }
+    else if (request.params.name === "update_profile") {
+      logger(`Received update_profile request with params: ${JSON.stringify(request.params.arguments)}`);
+      
+      const { prefecture, city, clear_home } = request.params.arguments ?? {};
+      
+      if ((prefecture !== undefined && typeof prefecture !== 'string') || (city !== undefined && typeof city !== 'string')) {
+        return errorResult(new InvalidArgumentError("Prefecture and city must be strings"));
+      }
+      if (clear_home !== undefined && typeof clear_home !== 'boolean') {
+        return errorResult(new InvalidArgumentError("clear_home must be a boolean"));
+      }
+      if (clear_home && (prefecture || city)) {
+        return errorResult(new InvalidArgumentError("clear_home cannot be combined with prefecture or city"));
+      }
+      
+      const changes = parseProfileChanges(request.params.arguments, profile);
+      if ('error' in changes) {
+        return errorResult(new InvalidArgumentError(changes.error));
       }
       
       try {
-        logger(`Fetching libraries for prefecture: ${prefecture} and city: ${city}`);
-        const libraries = await calilApiService.getLibraries(prefecture, city);
+        // 自宅の地域は正式名称に正規化して保存する（都道府県のみの場合は都道府県全体）
+        if (prefecture || city) {
+          const area = normalizeArea(prefecture || undefined, city ? [city] : []);
+          changes.home = { prefecture: area.prefecture, ...(area.cities && { city: area.cities[0] }) };
+        } else if (clear_home) {
+          changes.home = null;
+        }
         
-        const response = {
-          prefecture: prefecture,
-          city: city,
-          libraryCount: libraries.length,
-          libraries: libraries.slice(0, 10) // 最初の10件に制限
-        };
+        if (Object.keys(changes).length === 0) {
+          throw new InvalidArgumentError("No profile changes were given");
+        }
         
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response)
-            }
-          ]
-        };
+        return jsonResult({ profile: describeProfile(profiles.update(changes), calilApiService) });
       } catch (error) {
-        logger(`Error fetching libraries: ${error instanceof Error ? error.message : String(error)}`);
+        logger(`Error updating profile: ${error instanceof Error ? error.message : String(error)}`, 'error');
         
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ error: `Failed to fetch libraries: ${error instanceof Error ? error.message : String(error)}` })
-            }
-          ]
-        };
+        return errorResult(error);
       }
     }
+    else if (request.params.name === "reset_profile") {
+      logger("Received reset_profile request");
+      
+      return jsonResult({ profile: describeProfile(profiles.reset(), calilApiService) });
+    }
     
-    throw new Error(`Unknown tool: ${request.params.name}`);
+    return errorResult(new UnknownToolError(request.params.name));
+  });
+}
+
+/**
+ * プロフィールの自宅の地域を地域のデフォルト値にした設定を作る
+ * 自宅の地域が都道府県のみの場合は、市区町村のデフォルト値を使わない
+ */
+function withProfileDefaults(config: ServerConfig, profile: UserProfile): ServerConfig {
+  if (!profile.home) {
+    return config;
+  }
+  
+  return { ...config, defaultPrefecture: profile.home.prefecture, defaultCity: profile.home.city };
+}
+
+/**
+ * プロフィールをツールの応答の形式にする
+ * よく使う図書館には、読み込み済みの図書館一覧から分かる名称と図書館システムを付ける
+ */
+function describeProfile(profile: UserProfile, calilApiService: CalilApiService) {
+  return {
+    ...profile,
+    preferredLibraries: profile.preferredLibraries.map(libid => {
+      const library = calilApiService.findKnownLibrary(libid);
+      return {
+        libid,
+        ...(library && { formal: library.formal, systemid: library.systemid }),
+        uri: libraryResourceUri(libid)
+      };
+    }),
+    preferredSystems: profile.preferredSystems.map(systemid => ({ systemid, uri: systemResourceUri(systemid) })),
+  };
+}
+
+/**
+ * update_profile の引数から、よく使う図書館・図書館システムと除外する種別の変更を取り出す
+ * 
+ * @param args ツールの引数
+ * @param profile 現在のプロフィール
+ * @returns プロフィールの変更内容（不正な場合はエラーメッセージ）
+ */
+function parseProfileChanges(args: Record<string, unknown> | undefined, profile: UserProfile): ProfileUpdate | { error: string } {
+  const lists: Record<string, string[]> = {};
+  for (const key of ['add_libraries', 'remove_libraries', 'add_systems', 'remove_systems']) {
+    const value = args?.[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item !== '')) {
+      return { error: `${key} must be an array of non-empty strings` };
+    }
+    lists[key] = value;
+  }
+  
+  const excluded = args?.excluded_categories;
+  if (excluded !== undefined && (!Array.isArray(excluded) || !excluded.every(item => typeof item === 'string' && isLibraryCategory(item)))) {
+    return { error: `excluded_categories must be an array of ${LIBRARY_CATEGORIES.join(', ')}` };
+  }
+  
+  // 追加してから削除する（同じIDを両方に指定した場合は削除される）
+  const merge = (current: string[], add?: string[], remove?: string[]) =>
+    [...current, ...(add ?? [])].filter(id => !remove?.includes(id));
+  
+  return {
+    ...((lists.add_libraries || lists.remove_libraries) && {
+      preferredLibraries: merge(profile.preferredLibraries, lists.add_libraries, lists.remove_libraries)
+    }),
+    ...((lists.add_systems || lists.remove_systems) && {
+      preferredSystems: merge(profile.preferredSystems, lists.add_systems, lists.remove_systems)
+    }),
+    ...(excluded !== undefined && { excludedCategories: excluded as LibraryCategory[] }),
+  };
+}
+
+/**
+ * 図書館ごとの貸出状態の集計から、本としての状態を決める
+ * すぐに借りられる図書館があれば available、すべて貸出中・予約中なら on_loan、館内閲覧のみなら reference_only、
+ * 所蔵はあるが状態が分からなければ unknown、どこにもなければ not_held
+ */
+function bookStatus(summary: AvailabilitySummary): 'available' | 'on_loan' | 'reference_only' | 'unknown' | 'not_held' {
+  if (summary.availableCount > 0) {
+    return 'available';
+  }
+  if (summary.byStatus.on_loan + summary.byStatus.reserved > 0) {
+    return 'on_loan';
+  }
+  if (summary.byStatus.reference_only > 0) {
+    return 'reference_only';
+  }
+  return summary.byStatus.unknown + summary.byStatus.closed > 0 ? 'unknown' : 'not_held';
+}
+
+/**
+ * 読書リストの1冊の蔵書検索結果を、本ごとの報告にまとめる
+ * ISBNが見つからず検索していない本の status は no_isbn
+ */
+function describeReadingListEntry(entry: ReadingListEntry, result: BookAvailabilityResult | undefined) {
+  const book = {
+    position: entry.position,
+    title: entry.title ?? result?.title ?? null,
+    author: entry.author ?? null,
+    isbn: entry.isbn ?? null,
+  };
+  
+  if (!result) {
+    return { ...book, status: 'no_isbn' as const, ...(entry.rejected.length > 0 && { rejectedIsbns: entry.rejected }) };
+  }
+  
+  return {
+    ...book,
+    status: bookStatus(result.summary),
+    availableAt: result.summary.availableAt,
+    onLoanAt: result.summary.onLoanAt,
+    reserveUrls: [...new Set(result.availability.flatMap(item => (item.reserveUrl && item.status !== 'not_held' ? [item.reserveUrl] : [])))],
+    ...(result.partial && { partial: true, pendingSystems: result.pendingSystems })
+  };
+}
+
+/**
+ * 図書館一覧ツールの絞り込み・ページング条件を解釈する
+ * 
+ * @param args ツールの引数
+ * @returns 絞り込み・ページング条件（不正な場合はエラーメッセージ）
+ */
+function parseLibraryListOptions(args: Record<string, unknown> | undefined, config: ServerConfig): { filter: LibraryFilter; page: PageOptions } | { error: string } {
+  const { offset, limit, cursor, category, systemid, name } = args ?? {};
+  
+  if (offset !== undefined && (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0)) {
+    return { error: "offset must be a non-negative integer" };
+  }
+  if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > config.maxResultLimit)) {
+    return { error: `limit must be an integer between 1 and ${config.maxResultLimit}` };
+  }
+  if (cursor !== undefined && (typeof cursor !== 'string' || !/^[0-9]+$/.test(cursor))) {
+    return { error: "cursor must be a nextCursor value returned by a previous response" };
+  }
+  
+  // 文字列1つでの指定も受け付ける
+  const categories = typeof category === 'string' ? [category] : category;
+  const systemids = typeof systemid === 'string' ? [systemid] : systemid;
+  
+  if (categories !== undefined && (!Array.isArray(categories) || !categories.every(item => typeof item === 'string' && isLibraryCategory(item)))) {
+    return { error: `category must be one or more of ${LIBRARY_CATEGORIES.join(', ')}` };
+  }
+  if (systemids !== undefined && (!Array.isArray(systemids) || !systemids.every(item => typeof item === 'string'))) {
+    return { error: "systemid must be a string or an array of strings" };
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    return { error: "name must be a string" };
+  }
+  
+  return {
+    filter: { categories, systemids, name },
+    page: {
+      offset: cursor !== undefined ? Number(cursor) : (offset ?? 0),
+      limit: limit ?? config.defaultResultLimit
+    }
+  };
+}
+
+/**
+ * get_library_details の引数から図書館を特定する条件を取り出す
+ * 
+ * @param args ツールの引数
+ * @returns 図書館を特定する条件（不足・不正な場合はエラーメッセージ）
+ */
+function parseLibraryLookup(args: Record<string, unknown> | undefined): LibraryLookup | { error: string } {
+  const lookup: LibraryLookup = {};
+  
+  for (const key of ['libid', 'systemid', 'libkey', 'isil', 'name'] as const) {
+    const value = args?.[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      return { error: `${key} must be a non-empty string` };
+    }
+    lookup[key] = value.trim();
+  }
+  
+  if (lookup.libkey && !lookup.systemid) {
+    return { error: "libkey must be combined with systemid" };
+  }
+  if (!lookup.libid && !lookup.libkey && !lookup.isil && !lookup.name) {
+    return { error: "Specify libid, systemid and libkey, isil, or name" };
+  }
+  
+  return lookup;
+}
+
+/**
+ * 図書館の一覧・候補に含める図書館の概要
+ */
+function summarizeLibrary(library: LibraryInfo) {
+  return {
+    libid: library.libid,
+    formal: library.formal,
+    short: library.short,
+    libkey: library.libkey,
+    category: library.category,
+    city: library.city,
+    address: library.address,
+    tel: library.tel,
+    uri: libraryResourceUri(library.libid),
+  };
+}
+
+/**
+ * ツールの引数から都道府県・市区町村を取り出す
+ * 省略された場合は設定のデフォルト値を使う（都道府県や cities を指定した場合は市区町村のデフォルト値は使わない）
+ * 
+ * @param args ツールの引数
+ * @param config サーバー設定
+ * @returns 都道府県・市区町村（型の検証は呼び出し元で行う）
+ */
+function resolveArea(args: Record<string, unknown> | undefined, config: ServerConfig): { prefecture: unknown; city: unknown } {
+  const prefecture = args?.prefecture ?? config.defaultPrefecture;
+  const city = args?.city ?? (args?.prefecture === undefined && args?.cities === undefined ? config.defaultCity : undefined);
+  
+  return { prefecture, city };
+}
+
+/**
+ * search_books の引数から検索対象の地域を取り出す
+ * systemid を指定した場合は図書館システム、city / cities を指定した場合は市区町村、
+ * 都道府県のみの場合は都道府県全体が対象となる
+ * 
+ * @param args ツールの引数
+ * @param config サーバー設定
+ * @returns 検索対象の地域（不正な場合はエラーメッセージ）
+ */
+function parseSearchArea(args: Record<string, unknown> | undefined, config: ServerConfig): LibrarySearchArea | { error: string } {
+  const { systemid, cities } = args ?? {};
+  const systemids = typeof systemid === 'string' ? [systemid] : systemid;
+  
+  if (systemids !== undefined) {
+    if (!Array.isArray(systemids) || systemids.length === 0 || !systemids.every(item => typeof item === 'string' && item !== '')) {
+      return { error: "systemid must be a non-empty string or array of strings" };
+    }
+    if (systemids.length > MAX_SEARCH_AREAS) {
+      return { error: `At most ${MAX_SEARCH_AREAS} library systems can be searched at once` };
+    }
+    return { systemids: [...new Set(systemids)] };
+  }
+  
+  const { prefecture, city } = resolveArea(args, config);
+  
+  if (prefecture !== undefined && typeof prefecture !== 'string') {
+    return { error: "prefecture must be a string" };
+  }
+  if (city !== undefined && typeof city !== 'string') {
+    return { error: "city must be a string" };
+  }
+  if (cities !== undefined && (!Array.isArray(cities) || !cities.every(item => typeof item === 'string' && item !== ''))) {
+    return { error: "cities must be an array of city names" };
+  }
+  
+  const cityList = [...new Set([...(city ? [city] : []), ...(cities ?? [])])];
+  if (!prefecture && cityList.length === 0) {
+    return { error: "Prefecture parameter (or city, latitude and longitude, or systemid) is required" };
+  }
+  if (cityList.length > MAX_SEARCH_AREAS) {
+    return { error: `At most ${MAX_SEARCH_AREAS} cities can be searched at once` };
+  }
+  
+  return cityList.length > 0 ? { ...(prefecture && { prefecture }), cities: cityList } : { prefecture };
+}
+
+/**
+ * 地名の照合結果から地域を取り出す
+ * 
+ * @throws {UnknownAreaError} 該当する地域がない場合（似た名前の候補を details.suggestions に含める）
+ * @throws {AmbiguousAreaError} 複数の地域に該当する場合（該当する地域を details.candidates に含める）
+ */
+function resolvedArea(match: AreaMatch, input: string): AreaName {
+  if (match.status === 'ambiguous') {
+    throw new AmbiguousAreaError(`Area name matches several areas: ${input}. Specify the prefecture or the full name`, { input, candidates: match.candidates });
+  }
+  if (match.status === 'unknown') {
+    throw new UnknownAreaError(`Unknown area name: ${input}`, { input, suggestions: match.suggestions });
+  }
+  return match.area;
+}
+
+/**
+ * 都道府県名・市区町村名を同梱の地名辞書で正式名称に正規化する
+ * 都道府県を省略した場合は、市区町村名から都道府県を求める
+ * 
+ * @param prefecture 都道府県名（表記ゆれ・かな・ローマ字を含む）
+ * @param cities 市区町村名の配列
+ * @param prefectureIsDefault 都道府県が設定のデフォルト値の場合は true（その都道府県にない市区町村は全国から探す）
+ * @returns 正式名称の都道府県・市区町村（市区町村を指定しない場合は都道府県のみ）
+ */
+function normalizeArea(prefecture: string | undefined, cities: string[], prefectureIsDefault: boolean = false): { prefecture: string; cities?: string[] } {
+  const normalizedPrefecture = prefecture === undefined ? undefined : resolvedArea(matchPrefecture(prefecture), prefecture).prefecture;
+  
+  const areas = cities.map(city => {
+    const match = matchCity(city, normalizedPrefecture);
+    return resolvedArea(prefectureIsDefault && match.status === 'unknown' ? matchCity(city) : match, city);
   });
+  
+  const prefectures = [...new Set(areas.map(area => area.prefecture))];
+  if (prefectures.length > 1) {
+    throw new InvalidArgumentError("Cities in different prefectures cannot be searched at once", { cities: areas });
+  }
+  
+  const resolvedPrefecture = prefectures[0] ?? normalizedPrefecture;
+  if (!resolvedPrefecture) {
+    throw new InvalidArgumentError("Prefecture parameter is required");
+  }
+  
+  return areas.length > 0
+    ? { prefecture: resolvedPrefecture, cities: [...new Set(areas.map(area => area.city as string))] }
+    : { prefecture: resolvedPrefecture };
+}
+
+/**
+ * 蔵書検索のキャンセル・進捗通知の設定を作る
+ * クライアントが progressToken を指定した場合は、ポーリングのたびに MCP の進捗通知を送る
+ * 
+ * @param server MCPサーバー
+ * @param progressToken リクエストの progressToken
+ * @param signal リクエストのキャンセルを通知するシグナル
+ */
+function availabilityCheckOptions(server: Server, progressToken: string | number | undefined, signal: AbortSignal): CheckBooksOptions {
+  return {
+    signal,
+    onProgress: progressToken === undefined ? undefined : progress => {
+      // 進捗通知の progress は単調増加する必要があるためポーリング回数とする（完了した図書館システム数はログに残す）
+      logger(`Availability check progress: ${progress.completedSystems}/${progress.totalSystems} systems (round ${progress.attempt})`, 'debug');
+      server.notification({
+        method: "notifications/progress",
+        params: { progressToken, progress: progress.attempt }
+      }).catch(error => logger(`Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`, 'warn'));
+    }
+  };
+}
+
+/**
+ * ツールの引数から緯度経度を取り出す
+ * 
+ * @param args ツールの引数
+ * @returns 緯度経度（指定がない場合はnull、不正な場合はエラーメッセージ）
+ */
+function parseCoordinates(args: Record<string, unknown> | undefined): Coordinates | { error: string } | null {
+  const { latitude, longitude } = args ?? {};
+  
+  if (latitude === undefined && longitude === undefined) {
+    return null;
+  }
+  
+  if (typeof latitude !== 'number' || typeof longitude !== 'number' || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return { error: "latitude and longitude must both be numbers" };
+  }
+  
+  if (!isValidCoordinates({ latitude, longitude })) {
+    return { error: "latitude must be between -90 and 90 and longitude between -180 and 180" };
+  }
+  
+  return { latitude, longitude };
+}
+
+/**
+ * ツールの引数から出力形式と書き出しのオプションを取り出す
+ * 
+ * @param args ツールの引数
+ * @returns 出力形式（省略時は json）とオプション（不正な場合はエラーメッセージ）
+ */
+function parseExportOptions(args: Record<string, unknown> | undefined): { format: ExportFormat; options: ExportOptions } | { error: string } {
+  const { format = 'json', visit_date } = args ?? {};
+  
+  if (!isExportFormat(format)) {
+    return { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` };
+  }
+  
+  if (visit_date !== undefined) {
+    const match = typeof visit_date === 'string' ? visit_date.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+    const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+    if (!match || !date || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+      return { error: "visit_date must be a date in YYYY-MM-DD format" };
+    }
+  }
+  
+  return { format, options: { visitDate: visit_date as string | undefined } };
 }
 
 /**
  * クエリ文字列からISBNを抽出する
- * 標準的なISBN-10およびISBN-13の両方に対応
+ * 標準的なISBN-10およびISBN-13の両方に対応し、チェックディジットを検証する
+ * 
+ * @param query 検索クエリ
+ * @returns 有効なISBNと、候補になったが不正と判定された文字列
+ */
+function extractIsbnFromQuery(query: string): IsbnExtractionResult {
+  return extractIsbns(query);
+}
+
+/**
+ * 検索対象のISBN一覧を決定する
+ * isbn / isbn_list が指定されていればそれを優先し、なければクエリから抽出する
+ * 
+ * @param query 検索クエリ
+ * @param isbn 単一ISBN
+ * @param isbnList ISBNの配列
+ * @returns ISBN-13で重複を除いた有効なISBNと、不正と判定された候補
+ */
+function collectTargetIsbns(query?: string, isbn?: string, isbnList?: string[]): IsbnExtractionResult {
+  const candidates: string[] = [];
+  
+  if (isbn) {
+    candidates.push(isbn);
+  }
+  if (isbnList) {
+    candidates.push(...isbnList);
+  }
+  if (candidates.length === 0) {
+    return query ? extractIsbnFromQuery(query) : { valid: [], rejected: [] };
+  }
+  
+  return validateIsbns(candidates.filter(candidate => candidate.trim().length > 0));
+}
+
+/**
+ * ISBNを含まない検索条件から書誌検索の条件を組み立てる
+ * title / author が指定されていればそれを使い、なければクエリ中の『』「」で囲まれた部分を書名、
+ * それもなければクエリ全体をキーワードとして扱う
  * 
  * @param query 検索クエリ
- * @returns 抽出されたISBN（見つからない場合は空配列）
+ * @param title 書名
+ * @param author 著者名
+ * @param limit 候補の最大件数（検証済み）
+ * @returns 書誌検索の条件（条件が作れない場合はnull）
+ */
+function buildLookupQuery(query?: string, title?: string, author?: string, limit: number = DEFAULT_LOOKUP_CANDIDATES): BookLookupQuery | null {
+  
+  if (title || author) {
+    return { title: title || undefined, author: author || undefined, limit };
+  }
+  
+  if (!query || query.trim().length === 0) {
+    return null;
+  }
+  
+  const quoted = query.match(/[『「]([^』」]+)[』」]/);
+  if (quoted) {
+    return { title: quoted[1].trim(), limit };
+  }
+  
+  return { keyword: query.trim(), limit };
+}
+
+// ----- Prompts -----
+
+/**
+ * Prompts that guide the assistant through common library workflows
+ */
+const PROMPTS = [
+  {
+    name: "find_book_nearby",
+    description: "Find a library near me that has a book, checking the libraries of the area first and then their availability",
+    arguments: [
+      { name: "book", description: "ISBN or title of the book", required: true },
+      { name: "prefecture", description: "Prefecture name (e.g., '千葉県', 'Tokyo')" },
+      { name: "city", description: "City name (e.g., '八千代市', 'yokohama')" },
+    ],
+  },
+  {
+    name: "compare_library_availability",
+    description: "Compare the availability of a book across the libraries of the cities I usually visit",
+    arguments: [
+      { name: "book", description: "ISBN or title of the book", required: true },
+      { name: "cities", description: "Comma-separated city names (e.g., '八千代市, 船橋市')", required: true },
+      { name: "prefecture", description: "Prefecture name of the cities" },
+    ],
+  },
+  {
+    name: "plan_library_pickup",
+    description: "Plan a route through the libraries of a city to pick up several books",
+    arguments: [
+      { name: "books", description: "Comma- or newline-separated ISBNs or titles", required: true },
+      { name: "prefecture", description: "Prefecture name (e.g., '千葉県', 'Tokyo')" },
+      { name: "city", description: "City name (e.g., '八千代市', 'yokohama')" },
+    ],
+  },
+];
+
+/**
+ * Set up handler for listing prompts
+ */
+export function setupListPromptsHandler(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger("ListPrompts request received");
+    
+    return { prompts: PROMPTS };
+  });
+}
+
+/**
+ * Set up handler for getting a prompt
+ * The area defaults to the configured default prefecture/city
+ */
+export function setupGetPromptHandler(server: Server, config: ServerConfig, profiles: ProfileStore = new ProfileStore()): void {
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    logger(`GetPrompt request received for prompt: ${name}`);
+    
+    try {
+      const prompt = PROMPTS.find(candidate => candidate.name === name);
+      if (!prompt) {
+        throw new UnknownPromptError(name);
+      }
+      
+      const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+      if (missing.length > 0) {
+        throw new InvalidArgumentError(`Missing required prompt arguments: ${missing.map(argument => argument.name).join(', ')}`);
+      }
+      
+      return {
+        description: prompt.description,
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: buildPromptText(name, args, withProfileDefaults(config, profiles.get())) }
+          }
+        ]
+      };
+    } catch (error) {
+      logger(`Error getting prompt ${name}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw toMcpError(error);
+    }
+  });
+}
+
+/**
+ * プロンプトの本文を組み立てる
+ * 
+ * @param name プロンプト名
+ * @param args プロンプトの引数（必須の引数は検証済み）
+ * @param config サーバー設定（地域のデフォルト値）
  */
-function extractIsbnFromQuery(query: string): string[] {
-  // ISBN-13: 13桁の数字（ハイフン付きも可）
-  // ISBN-10: 10桁の数字またはX終わり（ハイフン付きも可）
-  const isbnRegex = /(?:ISBN(?:-1[03])?:?\s*)?(?=.{17}|.{13}|.{10})(?:97[89][-\s]?)?[0-9]{1,5}[-\s]?[0-9]+[-\s]?[0-9]+[-\s]?[0-9X]/gi;
+function buildPromptText(name: string, args: Record<string, string>, config: ServerConfig): string {
+  const prefecture = args.prefecture?.trim() || config.defaultPrefecture;
+  const city = args.city?.trim() || (args.prefecture ? undefined : config.defaultCity);
+  const areaArgs = [
+    ...(prefecture ? [`prefecture: "${prefecture}"`] : []),
+    ...(city ? [`city: "${city}"`] : []),
+  ].join(', ');
+  const areaCheck = city
+    ? `get_libraries_by_city（${areaArgs}）でこの地域の図書館を確認する。地名の候補（UNKNOWN_AREA / AMBIGUOUS_AREA）が返った場合は、候補から選ぶか私に確認する`
+    : "私の住んでいる市区町村を確認してから get_libraries_by_city でその地域の図書館を確認する。現在地の緯度経度が分かる場合は、代わりに search_books の latitude / longitude で近くの図書館を検索してよい";
+  
+  if (name === "compare_library_availability") {
+    const book = describeBookArgument(args.book);
+    const cities = splitPromptList(args.cities);
+    const prefectureArg = prefecture ? `prefecture: "${prefecture}", ` : '';
+    const citiesArg = `cities: [${cities.map(item => `"${item}"`).join(', ')}]`;
+    
+    return [
+      `いつも使っている${cities.join('・')}の図書館で、${book.label}の貸出状況を比べたいです。次の順に調べてください。`,
+      `1. 市区町村ごとに get_libraries_by_city（${prefectureArg}city）で図書館を確認する。地名の候補が返った場合は私に確認する`,
+      `2. search_books（${book.argument}, ${prefectureArg}${citiesArg}）で、すべての市区町村を1回でまとめて検索する`,
+      "3. 図書館ごとの貸出状況（status / statusLabel）を、市区町村・図書館名・状態・予約URL（reserveUrl）の表にまとめる。すぐに借りられる図書館（available）を先頭に並べる",
+      "4. 最後に、すぐに借りられる図書館の中から一番おすすめの図書館を1つ挙げる。どこにもない場合は予約できる図書館を挙げる",
+    ].join('\n');
+  }
+  
+  if (name === "plan_library_pickup") {
+    const books = splitPromptList(args.books).map(describeBookArgument);
+    const isbns = books.filter(book => book.isbn).map(book => `"${book.isbn}"`);
+    const titles = books.filter(book => !book.isbn);
+    const isbnList = [...isbns, ...(titles.length > 0 ? ['調べたISBN'] : [])].join(', ');
+    const steps = [
+      areaCheck,
+      ...(titles.length > 0 ? ["ISBNが分からない本は search_books の title で1冊ずつ検索し、ISBNを調べる"] : []),
+      `plan_library_visits（isbn_list: [${isbnList}], ${areaArgs || '確認した地域'}）で、回る図書館とその順番を計画する。私の現在地の緯度経度が分かる場合は latitude / longitude を出発地点として指定する`,
+      "計画（visits）の順に、図書館ごとに受け取る本と住所、前の地点からの距離（distanceKm）を挙げる",
+      "すぐに借りられる図書館がない本（uncovered）は最後に別に挙げ、予約するか都道府県全体で検索するかを提案する",
+    ];
+    
+    return [
+      `次の本を${[prefecture, city].filter(Boolean).join('') || '近く'}の図書館で受け取る計画を立ててください。`,
+      ...books.map(book => `- ${book.label}`),
+      "",
+      ...steps.map((step, index) => `${index + 1}. ${step}`),
+    ].join('\n');
+  }
   
-  const matches = query.match(isbnRegex);
-  if (!matches) return [];
+  const book = describeBookArgument(args.book);
   
-  // ハイフンや空白を削除して標準化
-  return matches.map(match => match.replace(/[-\s]/g, ''));
+  return [
+    `${[prefecture, city].filter(Boolean).join('') || '近く'}の図書館で${book.label}を借りたいです。次の順に調べてください。`,
+    `1. ${areaCheck}`,
+    `2. search_books（${[book.argument, areaArgs].filter(Boolean).join(', ')}）で蔵書状況を検索する。partial: true の場合は、検索が終わっていない図書館システム（pendingSystems）があることを伝える`,
+    "3. summary.availableAt の図書館（すぐに借りられる）を先に、summary.onLoanAt の図書館（貸出中）をその次に挙げ、図書館名・住所・予約URL（reserveUrl）を表にまとめる",
+    "4. どの図書館にも所蔵がない場合は、近隣の市区町村（cities）や都道府県全体での検索を提案する",
+  ].join('\n');
+}
+
+/**
+ * プロンプトの本の引数を、search_books の引数と本文での表記に変換する
+ * 正しいISBNは isbn、それ以外は書名として title で検索する
+ */
+function describeBookArgument(book: string): { label: string; argument: string; isbn?: string } {
+  const { valid } = validateIsbns([book.trim()]);
+  if (valid.length > 0) {
+    return { label: `ISBN ${valid[0].isbn13} の本`, argument: `isbn: "${valid[0].isbn13}"`, isbn: valid[0].isbn13 };
+  }
+  return { label: `『${book.trim()}』`, argument: `title: "${book.trim()}"` };
+}
+
+/**
+ * カンマ・読点・改行で区切られたプロンプトの引数を配列にする
+ */
+function splitPromptList(value: string): string[] {
+  return value.split(/[,、\n]/).map(item => item.trim()).filter(item => item !== '');
 }
 
 // ----- Server Startup Process -----
 
+/**
+ * Create the scheduler for outbound Calil API requests from the server configuration
+ */
+export function createRequestScheduler(config: ServerConfig): RequestScheduler {
+  return new RequestScheduler({
+    requestsPerSecond: config.requestsPerSecond,
+    maxRetries: config.maxRetries,
+    retryBaseDelayMs: config.retryBaseDelayMs,
+  });
+}
+
+/**
+ * Create the scheduler for NDL Search requests from the server configuration
+ * NDL Search has its own rate limit, and is not retried: a failed lookup is returned as a retryable error instead
+ */
+export function createBookLookupScheduler(config: ServerConfig): RequestScheduler {
+  return new RequestScheduler({
+    requestsPerSecond: config.bookLookupRequestsPerSecond,
+    maxRetries: 0,
+    retryBaseDelayMs: config.retryBaseDelayMs,
+  });
+}
+
+/**
+ * Create the library list cache (in memory, and in the cache file when configured) from the server configuration
+ */
+export function createLibraryCache(config: ServerConfig): LibraryCache<LibraryInfo[]> {
+  return new LibraryCache<LibraryInfo[]>({
+    ttlMs: config.cache.ttlSeconds * 1000,
+    maxEntries: config.cache.maxEntries,
+    filePath: config.cache.file,
+  });
+}
+
+/**
+ * Create the Calil API service from the server configuration
+ * @param scheduler Scheduler shared with other services (a new one is created when omitted)
+ * @param libraryCache Library list cache shared with other services (a new one is created when omitted)
+ */
+export function createCalilApiService(
+  config: ServerConfig,
+  scheduler: RequestScheduler = createRequestScheduler(config),
+  libraryCache: LibraryCache<LibraryInfo[]> = createLibraryCache(config)
+): CalilApiService {
+  return new CalilApiService({
+    apiKey: config.apiKey,
+    libraryApiUrl: config.libraryApiUrl,
+    checkApiUrl: config.checkApiUrl,
+    pollIntervalMs: config.pollIntervalMs,
+    maxPollRetries: config.maxPollRetries,
+    pollBackoffFactor: config.pollBackoffFactor,
+    maxPollIntervalMs: config.maxPollIntervalMs,
+    pollTimeoutMs: config.pollTimeoutMs,
+    cache: libraryCache,
+    scheduler,
+  });
+}
+
+/**
+ * Create an MCP server with all handlers set up
+ * @param scheduler Scheduler for Calil API requests shared by all servers so that the rate limit applies to the whole process
+ * @param watchlist Watchlist shared by all servers (a new one is created from the configuration when omitted)
+ * @param profiles User profile shared by all servers (a new one is created from the configuration when omitted)
+ * @param bookLookupProvider Bibliographic lookup provider shared by all servers (a new one is created from the configuration when omitted)
+ * @param libraryCache Library list cache shared by all servers, so that clear_library_cache applies to every session (a new one is created from the configuration when omitted)
+ */
+export function createConfiguredServer(
+  config: ServerConfig,
+  scheduler?: RequestScheduler,
+  watchlist: WatchlistStore = new WatchlistStore({ filePath: config.watchlist.file }),
+  profiles: ProfileStore = new ProfileStore({ filePath: config.profile.file }),
+  bookLookupProvider?: BookLookupProvider,
+  libraryCache?: LibraryCache<LibraryInfo[]>
+): Server {
+  // 1. Create server
+  const server = createServer();
+  
+  // 2. Set up handlers
+  const calilApiService = createCalilApiService(config, scheduler, libraryCache);
+  const lookupProvider = bookLookupProvider ?? createBookLookupProvider(config.bookLookupFixturePath, createBookLookupScheduler(config));
+  setupListResourcesHandler(server, watchlist);
+  setupListResourceTemplatesHandler(server);
+  setupReadResourceHandler(server, calilApiService, watchlist);
+  setupResourceSubscriptionHandlers(server, watchlist);
+  setupListToolsHandler(server, config);
+  setupCallToolHandler(server, calilApiService, lookupProvider, config, watchlist, profiles);
+  setupListPromptsHandler(server);
+  setupGetPromptHandler(server, config, profiles);
+  
+  return server;
+}
+
+/**
+ * Periodically check every watch in the background so that subscribed clients are notified of changes
+ * @returns Function that stops the background checks
+ */
+export function startBackgroundWatchChecks(
+  config: ServerConfig,
+  scheduler: RequestScheduler,
+  watchlist: WatchlistStore,
+  libraryCache: LibraryCache<LibraryInfo[]>
+): () => void {
+  const calilApiService = createCalilApiService(config, scheduler, libraryCache);
+  let running = false;
+  
+  const timer = setInterval(async () => {
+    // Skip a round while the previous one is still running
+    if (running || watchlist.list().length === 0) {
+      return;
+    }
+    running = true;
+    try {
+      const results = await checkWatches(watchlist, calilApiService);
+      logger(`Background watch check finished: ${results.filter(result => result.changes.length > 0).length}/${results.length} changed`);
+    } catch (error) {
+      logger(`Background watch check failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+      running = false;
+    }
+  }, config.watchlist.checkIntervalMinutes * 60 * 1000);
+  // Do not keep the process alive once the client has disconnected
+  timer.unref();
+  
+  return () => clearInterval(timer);
+}
+
 /**
  * Initialize and start the server
  */
@@ -338,27 +2452,35 @@ export async function runServer(): Promise<void> {
     // 1. Parse and validate configuration
     const config = parseArgs();
     validateConfig(config);
+    setLogLevel(config.logLevel);
     
-    // 2. Create server
-    const server = createServer();
-    
-    // 3. Set up handlers
-    setupListResourcesHandler(server);
-    setupReadResourceHandler(server);
-    setupListToolsHandler(server);
-    setupCallToolHandler(server);
-    
-    // 4. Establish server connection
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    // 2. Establish server connection
+    const scheduler = createRequestScheduler(config);
+    const watchlist = new WatchlistStore({ filePath: config.watchlist.file });
+    const profiles = new ProfileStore({ filePath: config.profile.file });
+    // One library cache for the whole process, so that sessions do not overwrite each other's cache file
+    const libraryCache = createLibraryCache(config);
+    // Load the bibliographic fixture once, so that a bad path fails at startup rather than in every session
+    const bookLookupProvider = createBookLookupProvider(config.bookLookupFixturePath, createBookLookupScheduler(config));
+    if (config.watchlist.checkIntervalMinutes > 0) {
+      startBackgroundWatchChecks(config, scheduler, watchlist, libraryCache);
+    }
+    if (config.transport === 'sse') {
+      // One MCP server (and Calil API service) per HTTP session, sharing the outbound request scheduler, the watchlist, the profile, the lookup provider and the library cache
+      await startHttpServer({ host: config.host, port: config.port }, () => createConfiguredServer(config, scheduler, watchlist, profiles, bookLookupProvider, libraryCache));
+    } else {
+      const server = createConfiguredServer(config, scheduler, watchlist, profiles, bookLookupProvider, libraryCache);
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+    }
     
-    logger("Server started successfully");
+    logger(`Server started successfully (transport: ${config.transport})`);
   } catch (error: unknown) {
     // Error handling
     if (error instanceof Error) {
-      logger(`Error: ${error.message}`);
+      logger(`Error: ${error.message}`, 'error');
     } else {
-      logger(`Unknown error: ${String(error)}`);
+      logger(`Unknown error: ${String(error)}`, 'error');
     }
     process.exit(1);
   }
@@ -0,0 +1,235 @@
+import { readFileSync } from 'fs';
+
+import { UpstreamNetworkError, httpErrorFor, toBookSearchError } from '../errors.js';
+import { BookCandidate, BookLookupOptions, BookLookupProvider, BookLookupQuery } from '../types/bookLookup.js';
+import { parseIsbn } from '../utils/isbn.js';
+import { LogLevel, isLogLevelEnabled } from '../utils/logger.js';
+import { RequestScheduler } from './requestScheduler.js';
+
+/**
+ * Logger utility
+ */
+function log(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  console.error(`[book-lookup] ${message}`);
+}
+
+// 候補件数のデフォルト値
+const DEFAULT_LIMIT = 5;
+
+// NDLサーチへのリクエストの待ち時間の上限（ミリ秒）
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * ISBN文字列をISBN-13に正規化する（不正な場合はnull）
+ */
+function toIsbn13(value: string): string | null {
+  try {
+    return parseIsbn(value).isbn13;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * XMLの文字参照・実体参照をデコードする
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#([0-9]+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * XML断片から指定タグの内容をすべて取り出す
+ */
+function extractTagValues(xml: string, tag: string): string[] {
+  const regex = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return [...xml.matchAll(regex)].map(match => decodeXmlEntities(match[1].trim()));
+}
+
+/**
+ * NDLサーチプロバイダの設定
+ */
+export interface NdlSearchProviderOptions {
+  /** 送信間隔・再試行を調停するスケジューラー（Calil APIと共有する） */
+  scheduler: RequestScheduler;
+  /** 1回の検索の待ち時間の上限（ミリ秒） */
+  timeoutMs?: number;
+}
+
+/**
+ * NDLサーチ OpenSearch API を利用した書誌情報プロバイダ
+ * https://ndlsearch.ndl.go.jp/help/api/specifications
+ */
+export class NdlSearchProvider implements BookLookupProvider {
+  readonly name = 'ndl';
+  private apiUrl = 'https://ndlsearch.ndl.go.jp/api/opensearch';
+  private scheduler: RequestScheduler;
+  private timeoutMs: number;
+
+  constructor(options: NdlSearchProviderOptions) {
+    this.scheduler = options.scheduler;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * タイトル・著者・キーワードで図書を検索する
+   * 呼び出し元のキャンセルか timeoutMs の経過で中断する
+   */
+  async search(query: BookLookupQuery, options: BookLookupOptions = {}): Promise<BookCandidate[]> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+    if (options.signal?.aborted) {
+      abort();
+    }
+    options.signal?.addEventListener('abort', abort, { once: true });
+    
+    try {
+      const limit = query.limit ?? DEFAULT_LIMIT;
+      const params = new URLSearchParams({
+        // ISBNを持たない書誌を除外するため多めに取得する
+        cnt: String(limit * 4),
+        mediatype: '1'
+      });
+      
+      if (query.title) {
+        params.append('title', query.title);
+      }
+      if (query.author) {
+        params.append('creator', query.author);
+      }
+      if (query.keyword) {
+        params.append('any', query.keyword);
+      }
+      
+      const url = `${this.apiUrl}?${params.toString()}`;
+      log(`Searching NDL: ${params.toString()}`);
+      
+      const response = await this.scheduler.fetch(url, controller.signal);
+      
+      if (!response.ok) {
+        throw httpErrorFor(response.status, 'NDL Search', response.headers.get('retry-after'));
+      }
+      
+      const xml = await response.text();
+      return this.parseOpenSearchResponse(xml).slice(0, limit);
+    } catch (error) {
+      log(`Error searching NDL: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw timedOut
+        ? new UpstreamNetworkError(`Request timed out after ${this.timeoutMs}ms`, 'NDL Search')
+        : toBookSearchError(error, 'NDL Search');
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * OpenSearchのRSSレスポンスから書籍候補を取り出す
+   */
+  private parseOpenSearchResponse(xml: string): BookCandidate[] {
+    const candidates: BookCandidate[] = [];
+    const seen = new Set<string>();
+    
+    for (const item of extractTagValues(xml, 'item')) {
+      const identifiers = [...item.matchAll(/<dc:identifier[^>]*dcndl:ISBN[^>]*>([^<]+)<\/dc:identifier>/g)];
+      const isbn = identifiers.map(match => toIsbn13(match[1])).find((value): value is string => value !== null);
+      
+      // ISBNのない書誌や、同じ版の重複は除外
+      if (!isbn || seen.has(isbn)) {
+        continue;
+      }
+      seen.add(isbn);
+      
+      const title = extractTagValues(item, 'dc:title')[0] ?? extractTagValues(item, 'title')[0] ?? '';
+      const author = extractTagValues(item, 'author')[0] ?? extractTagValues(item, 'dc:creator')[0];
+      const publisher = extractTagValues(item, 'dc:publisher')[0];
+      const issued = extractTagValues(item, 'dcterms:issued')[0];
+      
+      candidates.push({
+        isbn,
+        title,
+        ...(author && { author }),
+        ...(publisher && { publisher }),
+        ...(issued && { issued })
+      });
+    }
+    
+    return candidates;
+  }
+}
+
+/**
+ * ローカルの書誌データを利用するプロバイダ（テスト・オフライン用）
+ */
+export class FixtureBookLookupProvider implements BookLookupProvider {
+  readonly name = 'fixture';
+  private records: BookCandidate[];
+
+  /**
+   * @param records 書誌データ（ISBNはISBN-13に正規化される）
+   */
+  constructor(records: BookCandidate[]) {
+    this.records = records
+      .map(record => ({ ...record, isbn: toIsbn13(record.isbn) ?? record.isbn }));
+  }
+
+  /**
+   * JSONファイルから書誌データを読み込んで生成する
+   * @param path BookCandidateの配列を格納したJSONファイルのパス
+   */
+  static fromFile(path: string): FixtureBookLookupProvider {
+    const records = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!Array.isArray(records)) {
+      throw new Error(`Book lookup fixture must be a JSON array: ${path}`);
+    }
+    return new FixtureBookLookupProvider(records);
+  }
+
+  /**
+   * タイトル・著者・キーワードの部分一致で検索する
+   */
+  async search(query: BookLookupQuery): Promise<BookCandidate[]> {
+    const normalize = (text?: string) => (text ?? '').normalize('NFKC').toLowerCase().replace(/\s/g, '');
+    const title = normalize(query.title);
+    const author = normalize(query.author);
+    const keyword = normalize(query.keyword);
+    
+    return this.records
+      .filter(record => {
+        const recordTitle = normalize(record.title);
+        const recordAuthor = normalize(record.author);
+        return (!title || recordTitle.includes(title))
+          && (!author || recordAuthor.includes(author))
+          && (!keyword || recordTitle.includes(keyword) || recordAuthor.includes(keyword));
+      })
+      .slice(0, query.limit ?? DEFAULT_LIMIT);
+  }
+}
+
+/**
+ * 設定に応じて書誌情報プロバイダを生成する
+ * ローカルデータのパスが指定されていればそのデータを、なければNDLサーチを利用する
+ * @param fixturePath 書誌データのJSONファイルのパス（任意）
+ * @param scheduler NDLサーチへのリクエストに使うスケジューラー
+ */
+export function createBookLookupProvider(fixturePath: string | undefined, scheduler: RequestScheduler): BookLookupProvider {
+  if (fixturePath) {
+    log(`Using fixture book lookup provider: ${fixturePath}`);
+    return FixtureBookLookupProvider.fromFile(fixturePath);
+  }
+  return new NdlSearchProvider({ scheduler });
+}
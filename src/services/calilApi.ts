@@ -1,75 +1,161 @@
-import fetch from 'node-fetch';
-import * as dotenv from 'dotenv';
+import { CacheStatus, LibraryCache } from './libraryCache.js';
+import { RequestScheduler, sleep } from './requestScheduler.js';
+import {
+  MissingApiKeyError,
+  NoLibrariesFoundError,
+  PollTimeoutError,
+  UpstreamInvalidResponseError,
+  httpErrorFor,
+  toBookSearchError
+} from '../errors.js';
+import {
+  BookAvailabilityResult,
+  BookSearchRawResponse,
+  LibraryAvailability,
+  LibraryInfo,
+  NearbyLibraryInfo,
+  SystemAvailability,
+  normalizeLendingStatus,
+  parseBookSearchRawResponse,
+  parseLibraryListResponse,
+  summarizeAvailability
+} from '../types/calil.js';
+import { Coordinates, distanceKm, parseGeocode, toGeocode } from '../utils/geo.js';
+import { LogLevel, isLogLevelEnabled } from '../utils/logger.js';
 
-// Load environment variables
-dotenv.config();
+/**
+ * CalilApiServiceの設定
+ */
+export interface CalilApiOptions {
+  /** Calil APIのアプリケーションキー */
+  apiKey?: string;
+  /** 図書館APIのURL */
+  libraryApiUrl: string;
+  /** 蔵書検索APIのURL */
+  checkApiUrl: string;
+  /** 蔵書検索結果のポーリング間隔（ミリ秒） */
+  pollIntervalMs: number;
+  /** 蔵書検索結果のポーリング回数の上限 */
+  maxPollRetries: number;
+  /** ポーリングのたびに間隔を延ばす倍率 */
+  pollBackoffFactor: number;
+  /** ポーリング間隔の上限（ミリ秒） */
+  maxPollIntervalMs: number;
+  /** ポーリングを打ち切るまでの時間（ミリ秒） */
+  pollTimeoutMs: number;
+  /** 図書館一覧のキャッシュ（複数のサービスで共有できる） */
+  cache: LibraryCache<LibraryInfo[]>;
+  /** 外部APIへのリクエストのスケジューラー（複数のサービスで共有できる） */
+  scheduler: RequestScheduler;
+}
 
-// Get API key from environment variables
-const CALIL_API_KEY = process.env.CALIL_APPLICATION_KEY;
+/**
+ * 蔵書検索の進捗
+ */
+export interface PollProgress {
+  /** ポーリング回数 */
+  attempt: number;
+  /** 検索が完了した図書館システム数 */
+  completedSystems: number;
+  /** 検索対象の図書館システム数 */
+  totalSystems: number;
+}
 
 /**
- * シンプルな図書館情報の型
+ * 蔵書検索の実行オプション
  */
-interface LibraryInfo {
-  libid: string;
-  formal: string;
-  short: string;
-  systemid: string;
-  systemname: string;
-  libkey: string;
-  category: string;
-  pref: string;
-  city: string;
-  address: string;
-  url_pc: string;
+export interface CheckBooksOptions {
+  /** リクエストのキャンセルを通知するシグナル */
+  signal?: AbortSignal;
+  /** ポーリングのたびに呼ばれるコールバック */
+  onProgress?: (progress: PollProgress) => void;
 }
 
+/**
+ * 蔵書検索の対象地域
+ * systemids を指定した場合はその図書館システム、cities を指定した場合はそれらの市区町村、
+ * どちらもない場合は都道府県全体の図書館が対象となる
+ */
+export interface LibrarySearchArea {
+  /** 都道府県名（cities を指定する場合は必須） */
+  prefecture?: string;
+  /** 市区町村名の配列 */
+  cities?: string[];
+  /** 図書館システムIDの配列 */
+  systemids?: string[];
+}
+
+/**
+ * 蔵書検索APIの1リクエストで問い合わせる図書館システムの最大数
+ * 都道府県全体を検索する場合はシステムが数十に及ぶため、分割して問い合わせる
+ */
+const CHECK_SYSTEMID_BATCH_SIZE = 10;
+
 /**
  * Logger utility
  */
-function log(message: string): void {
+function log(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
   console.error(`[calil-api] ${message}`);
 }
 
 /**
- * 蔵書APIレスポンスの型 (実際のAPIレスポンス形式に合わせた修正版)
+ * 蔵書検索レスポンスで検索が完了した図書館システム数を数える
+ * いずれかのISBNで Running のシステムは未完了とみなす
  */
-interface BookResponse {
-  session: string;
-  continue: 0 | 1;
-  books: {
-    [isbn: string]: {
-      [systemid: string]: {
-        status: string;
-        libkey: {
-          [libkey: string]: string;  // ここが重要: 図書館キーに対する値は直接文字列
-        };
-        reserveurl?: string;
+function systemProgress(response: BookSearchRawResponse): { completed: number; total: number } {
+  const all = new Set<string>();
+  const pending = new Set<string>();
+  for (const systems of Object.values(response.books)) {
+    for (const [systemid, status] of Object.entries(systems)) {
+      all.add(systemid);
+      if (status.status === 'Running') {
+        pending.add(systemid);
       }
     }
   }
+  return { completed: all.size - pending.size, total: all.size };
 }
 
 /**
  * シンプル化されたCalil API サービス
  */
 export class CalilApiService {
-  private apiBaseUrl = 'https://api.calil.jp/library';
-  private apiCheckUrl = 'https://api.calil.jp/check';
+  private apiBaseUrl: string;
+  private apiCheckUrl: string;
   private apiKey: string;
+  private pollIntervalMs: number;
+  private maxPollRetries: number;
+  private pollBackoffFactor: number;
+  private maxPollIntervalMs: number;
+  private pollTimeoutMs: number;
+  private libraryIndex = new Map<string, LibraryInfo>();
+  private libraryCache: LibraryCache<LibraryInfo[]>;
+  private scheduler: RequestScheduler;
 
-  constructor() {
-    if (!CALIL_API_KEY) {
-      throw new Error('CALIL_APPLICATION_KEY is not defined in environment variables');
+  constructor(options: CalilApiOptions) {
+    if (!options.apiKey) {
+      throw new MissingApiKeyError();
     }
-    this.apiKey = CALIL_API_KEY;
+    this.apiKey = options.apiKey;
+    this.apiBaseUrl = options.libraryApiUrl;
+    this.apiCheckUrl = options.checkApiUrl;
+    this.pollIntervalMs = options.pollIntervalMs;
+    this.maxPollRetries = options.maxPollRetries;
+    this.pollBackoffFactor = options.pollBackoffFactor;
+    this.maxPollIntervalMs = options.maxPollIntervalMs;
+    this.pollTimeoutMs = options.pollTimeoutMs;
+    this.libraryCache = options.cache;
+    this.scheduler = options.scheduler;
     log('CalilApiService initialized');
   }
 
   /**
    * JSONPレスポンスをJSONに変換
    */
-  private parseJsonpResponse(text: string): any {
+  private parseJsonpResponse(text: string): unknown {
     if (text.startsWith('callback(') && text.endsWith(');')) {
       const jsonText = text.replace(/^callback\(/, '').replace(/\);$/, '');
       return JSON.parse(jsonText);
@@ -83,33 +169,124 @@ export class CalilApiService {
    * @param city 市区町村名（任意）
    */
   async getLibraries(pref: string, city?: string): Promise<LibraryInfo[]> {
+    return (await this.getLibrariesWithCacheStatus(pref, city)).libraries;
+  }
+
+  /**
+   * 図書館一覧をキャッシュの参照結果とともに取得
+   * @param pref 都道府県名（必須）
+   * @param city 市区町村名（任意）
+   */
+  async getLibrariesWithCacheStatus(pref: string, city?: string): Promise<{ libraries: LibraryInfo[]; cache: CacheStatus }> {
+    log(`Fetching libraries: pref=${pref}${city ? ', city=' + city : ''}`);
+    return this.fetchLibraries(city ? { pref, city } : { pref });
+  }
+
+  /**
+   * 図書館システムに属する図書館一覧を取得
+   * @param systemid 図書館システムID
+   */
+  async getLibrariesBySystem(systemid: string): Promise<LibraryInfo[]> {
+    log(`Fetching libraries: systemid=${systemid}`);
+    return (await this.fetchLibraries({ systemid })).libraries;
+  }
+
+  /**
+   * これまでに取得した図書館一覧から図書館IDで図書館を探す
+   * 図書館APIは図書館IDでの検索に対応していないため、取得済みのデータのみが対象となる
+   * @param libid 図書館ID
+   */
+  findKnownLibrary(libid: string): LibraryInfo | undefined {
+    return this.libraryIndex.get(libid);
+  }
+
+  /**
+   * これまでに取得したすべての図書館
+   */
+  getKnownLibraries(): LibraryInfo[] {
+    return [...this.libraryIndex.values()];
+  }
+
+  /**
+   * 図書館一覧のキャッシュを削除
+   * 都道府県を指定した場合はその都道府県（市区町村も指定した場合はその市区町村）のキャッシュのみを削除する
+   * @param pref 都道府県名（任意）
+   * @param city 市区町村名（任意）
+   * @returns 削除した件数
+   */
+  clearLibraryCache(pref?: string, city?: string): number {
+    const removed = this.libraryCache.invalidate(pref ? key => {
+      const params = new URLSearchParams(key);
+      return params.get('pref') === pref && (!city || params.get('city') === city);
+    } : undefined);
+    log(`Cleared ${removed} library cache entries${pref ? ` for ${pref}${city ? ', ' + city : ''}` : ''}`);
+    return removed;
+  }
+
+  /**
+   * 図書館APIを呼び出し、取得した図書館を図書館IDで索引する
+   * キャッシュが有効な場合はAPIを呼び出さずにキャッシュを返す
+   * @param query 検索条件（pref / city / systemid）
+   */
+  private async fetchLibraries(query: Record<string, string>): Promise<{ libraries: LibraryInfo[]; cache: CacheStatus }> {
     try {
-      const params = new URLSearchParams({
-        appkey: this.apiKey,
-        format: 'json',
-        pref: pref
-      });
+      const cacheKey = new URLSearchParams(query).toString();
+      const cached = this.libraryCache.get(cacheKey);
       
-      if (city) {
-        params.append('city', city);
+      if (cached) {
+        log(`Library cache hit (${cached.status.source}): ${cacheKey}`);
+        this.indexLibraries(cached.value);
+        return { libraries: cached.value, cache: cached.status };
       }
       
-      const url = `${this.apiBaseUrl}?${params.toString()}`;
-      log(`Fetching libraries: pref=${pref}${city ? ', city=' + city : ''}`);
-      
-      const response = await fetch(url);
+      // 同じ条件の取得が実行中であれば相乗りする
+      const libraries = await this.scheduler.coalesce(`library:${cacheKey}`, () => this.requestLibraries(query));
       
-      if (!response.ok) {
-        throw new Error(`API call failed with status: ${response.status}`);
-      }
+      this.indexLibraries(libraries);
+      const cache = this.libraryCache.set(cacheKey, libraries);
       
-      const text = await response.text();
-      const libraries = this.parseJsonpResponse(text);
-      
-      return Array.isArray(libraries) ? libraries : [];
+      return { libraries, cache };
     } catch (error) {
-      log(`Error fetching libraries: ${error instanceof Error ? error.message : String(error)}`);
-      throw error;
+      log(`Error fetching libraries: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw toBookSearchError(error, 'Calil');
+    }
+  }
+
+  /**
+   * 図書館APIを呼び出して図書館一覧を取得
+   * @param query 検索条件（pref / city / systemid）
+   */
+  private async requestLibraries(query: Record<string, string>): Promise<LibraryInfo[]> {
+    const params = new URLSearchParams({
+      appkey: this.apiKey,
+      format: 'json',
+      ...query
+    });
+    
+    const url = `${this.apiBaseUrl}?${params.toString()}`;
+    
+    const response = await this.scheduler.fetch(url);
+    
+    if (!response.ok) {
+      throw httpErrorFor(response.status, 'Calil', response.headers.get('retry-after'));
+    }
+    
+    const text = await response.text();
+    const libraries = parseLibraryListResponse(this.parseJsonpResponse(text));
+    
+    if (!libraries) {
+      throw new UpstreamInvalidResponseError('Library API returned an unexpected response (expected an array of libraries)', 'Calil');
+    }
+    
+    return libraries;
+  }
+
+  /**
+   * 図書館を図書館IDで索引する
+   */
+  private indexLibraries(libraries: LibraryInfo[]): void {
+    for (const library of libraries) {
+      this.libraryIndex.set(library.libid, library);
     }
   }
 
@@ -117,8 +294,21 @@ export class CalilApiService {
    * 蔵書検索の実行
    * @param isbn 検索対象ISBN（単一または複数カンマ区切り）
    * @param systemids 図書館システムID（単一または複数カンマ区切り）
+   * @param options キャンセル・進捗通知の設定
+   */
+  async checkBooks(isbn: string, systemids: string, options: CheckBooksOptions = {}): Promise<BookSearchRawResponse> {
+    // 同じISBN・図書館システムの検索が実行中であれば相乗りする
+    return this.scheduler.coalesce<BookSearchRawResponse, PollProgress>(
+      `check:${isbn}:${systemids}`,
+      (signal, emit) => this.runCheck(isbn, systemids, { signal, onProgress: emit }),
+      { signal: options.signal, onEvent: options.onProgress }
+    );
+  }
+
+  /**
+   * 蔵書検索APIを呼び出し、検索が完了するまでポーリングする
    */
-  async checkBooks(isbn: string, systemids: string): Promise<BookResponse> {
+  private async runCheck(isbn: string, systemids: string, options: CheckBooksOptions): Promise<BookSearchRawResponse> {
     try {
       const params = new URLSearchParams({
         appkey: this.apiKey,
@@ -130,36 +320,63 @@ export class CalilApiService {
       const url = `${this.apiCheckUrl}?${params.toString()}`;
       log(`Checking books: isbn=${isbn}, systemids=${systemids}`);
       
-      const response = await fetch(url);
+      const response = await this.scheduler.fetch(url, options.signal);
       
       if (!response.ok) {
-        throw new Error(`API call failed with status: ${response.status}`);
+        throw httpErrorFor(response.status, 'Calil', response.headers.get('retry-after'));
       }
       
       const text = await response.text();
-      const result = this.parseJsonpResponse(text) as BookResponse;
+      const result = this.parseCheckResponse(text);
       
       // ポーリングが必要な場合
       if (result.continue === 1) {
-        return this.pollResults(result.session);
+        return this.pollResults(result, options);
       }
       
       return result;
     } catch (error) {
-      log(`Error checking books: ${error instanceof Error ? error.message : String(error)}`);
-      throw error;
+      log(`Error checking books: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw toBookSearchError(error, 'Calil');
+    }
+  }
+
+  /**
+   * 蔵書検索APIのレスポンスを検証して変換
+   */
+  private parseCheckResponse(text: string): BookSearchRawResponse {
+    const result = parseBookSearchRawResponse(this.parseJsonpResponse(text));
+    if (!result) {
+      throw new UpstreamInvalidResponseError('Check API returned an unexpected response (missing session or continue)', 'Calil');
     }
+    return result;
   }
 
   /**
    * 結果ポーリング
-   * @param session セッションID
+   * 間隔を pollBackoffFactor 倍ずつ（maxPollIntervalMs まで）延ばしながら、pollTimeoutMs の期限までポーリングする
+   * 期限内に完了しなかった場合は、完了した図書館システムの結果だけを continue: 1 のまま返す
+   * @param initial 蔵書検索APIの最初のレスポンス
+   * @param options キャンセル・進捗通知の設定
    */
-  private async pollResults(session: string, maxRetries: number = 5): Promise<BookResponse> {
+  private async pollResults(initial: BookSearchRawResponse, options: CheckBooksOptions): Promise<BookSearchRawResponse> {
+    const session = initial.session;
+    const startedAt = Date.now();
+    let interval = this.pollIntervalMs;
+    let latest = initial;
+    let attempts = 0;
+    
     try {
-      for (let i = 0; i < maxRetries; i++) {
-        // ポーリング間隔を設定（1秒）
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      while (attempts < this.maxPollRetries) {
+        const remaining = this.pollTimeoutMs - (Date.now() - startedAt);
+        if (remaining <= 0) {
+          break;
+        }
+        
+        // ポーリング間隔を待機（キャンセルされた場合は中断）
+        await sleep(Math.min(interval, remaining), options.signal);
+        interval = Math.min(interval * this.pollBackoffFactor, this.maxPollIntervalMs);
+        attempts++;
         
         const params = new URLSearchParams({
           appkey: this.apiKey,
@@ -168,27 +385,37 @@ export class CalilApiService {
         });
         
         const url = `${this.apiCheckUrl}?${params.toString()}`;
-        log(`Polling results: session=${session}, attempt=${i+1}/${maxRetries}`);
+        log(`Polling results: session=${session}, attempt=${attempts}/${this.maxPollRetries}`);
         
-        const response = await fetch(url);
+        const response = await this.scheduler.fetch(url, options.signal);
         
         if (!response.ok) {
-          throw new Error(`API call failed with status: ${response.status}`);
+          throw httpErrorFor(response.status, 'Calil', response.headers.get('retry-after'));
         }
         
         const text = await response.text();
-        const result = this.parseJsonpResponse(text) as BookResponse;
+        latest = this.parseCheckResponse(text);
+        
+        const systems = systemProgress(latest);
+        log(`Poll progress: session=${session}, completed=${systems.completed}/${systems.total}`, 'debug');
+        options.onProgress?.({ attempt: attempts, completedSystems: systems.completed, totalSystems: systems.total });
         
         // ポーリング完了
-        if (result.continue === 0) {
-          return result;
+        if (latest.continue === 0) {
+          return latest;
         }
       }
       
-      throw new Error(`Polling timed out after ${maxRetries} attempts`);
+      // 期限切れ: 完了した図書館システムがあれば部分的な結果として返す
+      const elapsedMs = Date.now() - startedAt;
+      if (systemProgress(latest).completed === 0) {
+        throw new PollTimeoutError(attempts, session, elapsedMs);
+      }
+      log(`Polling did not finish within ${elapsedMs}ms (session=${session}), returning partial results`, 'warn');
+      return latest;
     } catch (error) {
-      log(`Error polling results: ${error instanceof Error ? error.message : String(error)}`);
-      throw error;
+      log(`Error polling results: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw toBookSearchError(error, 'Calil');
     }
   }
 
@@ -197,89 +424,321 @@ export class CalilApiService {
    * @param isbn ISBN
    * @param pref 都道府県名
    * @param city 市区町村名
+   * @param title 書名（書誌検索で判明している場合、結果に含める）
+   * @param options キャンセル・進捗通知の設定
+   */
+  async searchBookInCity(
+    isbn: string,
+    pref: string,
+    city: string,
+    title?: string,
+    options: CheckBooksOptions = {}
+  ): Promise<BookAvailabilityResult & { libraryCache: CacheStatus }> {
+    try {
+      // 1. まず市区町村の図書館一覧を取得
+      const { libraries, cache } = await this.getLibrariesWithCacheStatus(pref, city);
+      
+      if (libraries.length === 0) {
+        throw new NoLibrariesFoundError(`No libraries found in ${pref}, ${city}`, { prefecture: pref, city });
+      }
+      
+      // 2. 図書館の蔵書を検索して結果を整形
+      const [result] = await this.searchBooksInLibraries([isbn], libraries, title ? { [isbn]: title } : {}, options);
+      
+      return { ...result, libraryCache: cache };
+    } catch (error) {
+      log(`Error searching book in city: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * 市区町村内の図書館で複数の本をまとめて検索
+   * 蔵書検索APIは1つのセッションで複数ISBNを扱えるため、ISBNごとにAPIを呼ばずに一括で問い合わせる
+   * @param isbns ISBNの配列
+   * @param pref 都道府県名
+   * @param city 市区町村名
+   * @param titles ISBNをキーとした書名（書誌検索で判明している場合、結果に含める）
+   * @param options キャンセル・進捗通知の設定
    */
-  async searchBookInCity(isbn: string, pref: string, city: string): Promise<any> {
+  async searchBooksInCity(
+    isbns: string[],
+    pref: string,
+    city: string,
+    titles: Record<string, string> = {},
+    options: CheckBooksOptions = {}
+  ): Promise<{ results: BookAvailabilityResult[]; libraryCache: CacheStatus }> {
     try {
       // 1. まず市区町村の図書館一覧を取得
-      const libraries = await this.getLibraries(pref, city);
+      const { libraries, cache } = await this.getLibrariesWithCacheStatus(pref, city);
       
       if (libraries.length === 0) {
-        return { error: `No libraries found in ${pref}, ${city}` };
+        throw new NoLibrariesFoundError(`No libraries found in ${pref}, ${city}`, { prefecture: pref, city });
       }
       
-      // 2. システムIDの一覧を作成
-      const systemIds = [...new Set(libraries.map(lib => lib.systemid))].join(',');
+      // 2. 全ISBNを1セッションで検索し、ISBNごとに結果を整形
+      return {
+        results: await this.searchBooksInLibraries(isbns, libraries, titles, options),
+        libraryCache: cache
+      };
+    } catch (error) {
+      log(`Error searching books in city: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * 都道府県全体・複数の市区町村・図書館システムの図書館で複数の本をまとめて検索
+   * @param isbns ISBNの配列
+   * @param area 対象地域
+   * @param titles ISBNをキーとした書名（書誌検索で判明している場合、結果に含める）
+   * @param options キャンセル・進捗通知の設定
+   */
+  async searchBooksInArea(
+    isbns: string[],
+    area: LibrarySearchArea,
+    titles: Record<string, string> = {},
+    options: CheckBooksOptions = {}
+  ): Promise<{ results: BookAvailabilityResult[]; libraryCount: number; systemids: string[]; libraryCache: CacheStatus[] }> {
+    try {
+      // 1. 対象地域の図書館一覧を取得（図書館IDで重複を除く）
+      const queries = this.areaQueries(area);
+      const libraries = new Map<string, LibraryInfo>();
+      const libraryCache: CacheStatus[] = [];
       
-      // 3. 蔏書検索API呼び出し
-      const result = await this.checkBooks(isbn, systemIds);
+      for (const query of queries) {
+        const fetched = await this.fetchLibraries(query);
+        libraryCache.push(fetched.cache);
+        for (const library of fetched.libraries) {
+          libraries.set(library.libid, library);
+        }
+      }
       
-      // 4. 結果を整形して返す
-      return this.formatBookResult(result, libraries, isbn);
+      if (libraries.size === 0) {
+        throw new NoLibrariesFoundError(`No libraries found in ${this.describeArea(area)}`, { ...area });
+      }
+      
+      // 2. 図書館システムを分割して検索し、ISBNごとに結果を整形
+      const targetLibraries = [...libraries.values()];
+      return {
+        results: await this.searchBooksInLibraries(isbns, targetLibraries, titles, options),
+        libraryCount: targetLibraries.length,
+        systemids: [...new Set(targetLibraries.map(lib => lib.systemid))],
+        libraryCache
+      };
     } catch (error) {
-      log(`Error searching book in city: ${error instanceof Error ? error.message : String(error)}`);
-      return { error: error instanceof Error ? error.message : String(error) };
+      log(`Error searching books in area: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * 対象地域を図書館APIの検索条件に変換
+   */
+  private areaQueries(area: LibrarySearchArea): Record<string, string>[] {
+    if (area.systemids && area.systemids.length > 0) {
+      return area.systemids.map(systemid => ({ systemid }));
+    }
+    if (!area.prefecture) {
+      return [];
+    }
+    if (area.cities && area.cities.length > 0) {
+      return area.cities.map(city => ({ pref: area.prefecture as string, city }));
+    }
+    return [{ pref: area.prefecture }];
+  }
+
+  /**
+   * ログ・エラーメッセージ用に対象地域を文字列化
+   */
+  private describeArea(area: LibrarySearchArea): string {
+    if (area.systemids && area.systemids.length > 0) {
+      return `systems ${area.systemids.join(', ')}`;
     }
+    return area.cities && area.cities.length > 0
+      ? `${area.prefecture}, ${area.cities.join(', ')}`
+      : `${area.prefecture}`;
+  }
+
+  /**
+   * 指定地点の近くにある図書館を距離の近い順に取得
+   * @param coordinates 緯度経度
+   * @param limit 最大件数
+   * @param radiusKm 検索半径（km、任意）
+   */
+  async getNearbyLibraries(coordinates: Coordinates, limit: number, radiusKm?: number): Promise<NearbyLibraryInfo[]> {
+    log(`Fetching libraries near: ${toGeocode(coordinates)}, limit=${limit}`);
+    const { libraries } = await this.fetchLibraries({ geocode: toGeocode(coordinates), limit: String(limit) });
+    
+    return libraries
+      .map(library => {
+        const location = parseGeocode(library.geocode);
+        return {
+          ...library,
+          distanceKm: location ? Math.round(distanceKm(coordinates, location) * 100) / 100 : Number.POSITIVE_INFINITY
+        };
+      })
+      .filter(library => Number.isFinite(library.distanceKm) && (radiusKm === undefined || library.distanceKm <= radiusKm))
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, limit);
+  }
+
+  /**
+   * 指定地点から近いN館で複数の本をまとめて検索
+   * @param isbns ISBNの配列
+   * @param coordinates 緯度経度
+   * @param nearest 対象とする図書館の数
+   * @param titles ISBNをキーとした書名（書誌検索で判明している場合、結果に含める）
+   * @param options キャンセル・進捗通知の設定
+   */
+  async searchBooksNearby(
+    isbns: string[],
+    coordinates: Coordinates,
+    nearest: number,
+    titles: Record<string, string> = {},
+    options: CheckBooksOptions = {}
+  ): Promise<{ results: BookAvailabilityResult[] }> {
+    try {
+      const libraries = await this.getNearbyLibraries(coordinates, nearest);
+      
+      if (libraries.length === 0) {
+        throw new NoLibrariesFoundError(`No libraries found near ${coordinates.latitude}, ${coordinates.longitude}`, { ...coordinates });
+      }
+      
+      return {
+        results: await this.searchBooksInLibraries(isbns, libraries, titles, options)
+      };
+    } catch (error) {
+      log(`Error searching books nearby: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * 図書館一覧に含まれる図書館で本を検索し、ISBNごとに結果を整形する
+   * 図書館システムごとに検索されるが、結果は一覧に含まれる図書館に限られる
+   * システム数が多い場合は CHECK_SYSTEMID_BATCH_SIZE ごとに分割して問い合わせ、結果を統合する
+   */
+  private async searchBooksInLibraries(
+    isbns: string[],
+    libraries: (LibraryInfo | NearbyLibraryInfo)[],
+    titles: Record<string, string>,
+    options: CheckBooksOptions = {}
+  ): Promise<BookAvailabilityResult[]> {
+    // システムIDの一覧を作成
+    const systemIds = [...new Set(libraries.map(lib => lib.systemid))];
+    const merged: BookSearchRawResponse = { session: '', continue: 0, books: {} };
+    let attempts = 0;
+    
+    // 蔵書検索API呼び出し（全ISBNを1セッションで検索し、システムIDはバッチに分割）
+    // 進捗はバッチをまたいで通算する
+    for (let i = 0; i < systemIds.length; i += CHECK_SYSTEMID_BATCH_SIZE) {
+      const batch = systemIds.slice(i, i + CHECK_SYSTEMID_BATCH_SIZE);
+      const result = await this.checkBooks(isbns.join(','), batch.join(','), {
+        signal: options.signal,
+        onProgress: options.onProgress && (progress => options.onProgress?.({
+          attempt: ++attempts,
+          completedSystems: i + progress.completedSystems,
+          totalSystems: systemIds.length
+        }))
+      });
+      
+      merged.session = result.session;
+      if (result.continue === 1) {
+        merged.continue = 1;
+      }
+      for (const isbn in result.books) {
+        merged.books[isbn] = { ...merged.books[isbn], ...result.books[isbn] };
+      }
+    }
+    
+    return isbns.map(isbn => this.formatBookResult(merged, libraries, isbn, titles[isbn]));
   }
 
   /**
    * 検索結果を整形して返す
    */
-  private formatBookResult(bookResponse: BookResponse, libraries: LibraryInfo[], isbn: string): any {
+  private formatBookResult(
+    bookResponse: BookSearchRawResponse,
+    libraries: (LibraryInfo | NearbyLibraryInfo)[],
+    isbn: string,
+    title?: string
+  ): BookAvailabilityResult {
     try {
-      // デバッグ情報を出力
-      log(`API response for ISBN ${isbn}: ${JSON.stringify(bookResponse)}`);
+      // デバッグ情報を出力（複数ISBNのレスポンス全体ではなく、このISBNの部分だけを出力する）
+      if (isLogLevelEnabled('debug')) {
+        log(`API response for ISBN ${isbn}: ${JSON.stringify(bookResponse.books[isbn])}`, 'debug');
+      }
       
-      const result = {
+      const bookData = bookResponse.books[isbn] ?? {};
+      const result: BookAvailabilityResult = {
         isbn: isbn,
-        libraries: [] as any[]
+        ...(title && { title }),
+        summary: summarizeAvailability([]),
+        availability: [],
+        systems: [],
+        raw: bookData
       };
       
-      // books配下にISBNがない場合
-      if (!bookResponse.books || !bookResponse.books[isbn]) {
-        log(`No data found for ISBN ${isbn}`);
-        return result;
+      // 期限内に完了しなかった図書館システム
+      const pendingSystems = Object.keys(bookData).filter(systemId => bookData[systemId].status === 'Running');
+      if (pendingSystems.length > 0) {
+        result.partial = true;
+        result.pendingSystems = pendingSystems;
       }
       
-      // 各システムの結果を処理
-      const bookData = bookResponse.books[isbn];
+      // books配下にISBNがない場合
+      if (!bookResponse.books[isbn]) {
+        log(`No data found for ISBN ${isbn}`, 'debug');
+      }
       
-      for (const systemId in bookData) {
-        const systemData = bookData[systemId];
-        log(`System data for ${systemId}: ${JSON.stringify(systemData)}`);
-        
-        // システムステータスがOKまたはCacheの場合のみ処理
-        if (systemData.status !== 'OK' && systemData.status !== 'Cache') {
-          log(`Skipping system ${systemId} due to status: ${systemData.status}`);
-          continue;
-        }
+      // 検索対象のシステムと、レスポンスに含まれるシステムをすべて処理する
+      // レスポンスに含まれない検索対象のシステムは検索に失敗したものとして扱う
+      const systemIds = [...new Set([...libraries.map(lib => lib.systemid), ...Object.keys(bookData)])];
+      for (const systemId of systemIds) {
+        const systemData = bookData[systemId] ?? { status: 'Error', libkey: {} };
+        log(`System data for ${systemId}: ${JSON.stringify(systemData)}`, 'debug');
         
         // 対象のシステムに属する図書館を取得
         const systemLibraries = libraries.filter(lib => lib.systemid === systemId);
+        const system: SystemAvailability = {
+          systemid: systemId,
+          ...(systemLibraries.length > 0 && { systemname: systemLibraries[0].systemname }),
+          status: systemData.status,
+          ...(systemData.reserveurl && {
+            reserveUrl: systemData.reserveurl.replace('{{isbn}}', isbn).replace('{{systemid}}', systemId)
+          }),
+          libraries: [],
+          unmatchedLibraries: []
+        };
+        result.systems.push(system);
         
-        // libkeyが存在しない場合はスキップ
-        if (!systemData.libkey) {
-          log(`No libkey data for system ${systemId}`);
+        // 貸出状態はシステムステータスがOKまたはCacheの場合のみ処理
+        if (systemData.status !== 'OK' && systemData.status !== 'Cache') {
+          log(`Skipping libraries of system ${systemId} due to status: ${systemData.status}`, 'debug');
           continue;
         }
         
         // 各図書館の蔵書状態を処理
         for (const libKey in systemData.libkey) {
+          // 貸出ステータスの取得（Calilの仕様にない値も statusLabel にそのまま残し、status は unknown とする）
+          const statusLabel = systemData.libkey[libKey];
+          const status = normalizeLendingStatus(statusLabel);
+          
           const libraryInfo = systemLibraries.find(lib => lib.libkey === libKey);
           
           if (!libraryInfo) {
-            log(`Library with key ${libKey} not found in system ${systemId}`);
+            log(`Library with key ${libKey} not found in system ${systemId}`, 'debug');
+            system.unmatchedLibraries.push({ libkey: libKey, status, statusLabel });
             continue;
           }
           
-          // 貸出ステータスの取得
-          // APIの仕様では `libkey` の値は直接文字列
-          const lendingStatus = systemData.libkey[libKey] || '不明';
-          
-          log(`Library: ${libraryInfo.formal}, status: ${lendingStatus}`);
+          log(`Library: ${libraryInfo.formal}, status: ${statusLabel} (${status})`, 'debug');
+          system.libraries.push({ libid: libraryInfo.libid, libkey: libKey, formal: libraryInfo.formal, status, statusLabel });
           
           // 予約URLの構築
-          let reserveUrl = null;
-          if (systemData.reserveurl && lendingStatus !== '蔵書なし') {
+          let reserveUrl: string | undefined;
+          if (systemData.reserveurl && status !== 'not_held') {
             reserveUrl = systemData.reserveurl
               .replace('{{isbn}}', isbn)
               .replace('{{systemid}}', systemId)
@@ -287,18 +746,29 @@ export class CalilApiService {
           }
           
           // 結果に追加
-          result.libraries.push({
-            name: libraryInfo.formal,
-            status: lendingStatus,
-            reserveUrl: reserveUrl
-          });
+          const { distanceKm: distance, ...library } = libraryInfo as NearbyLibraryInfo;
+          const entry: LibraryAvailability = {
+            library: library,
+            status,
+            statusLabel,
+            ...(reserveUrl && { reserveUrl }),
+            ...(distance !== undefined && { distanceKm: distance })
+          };
+          result.availability.push(entry);
         }
       }
       
+      // 検索に失敗した図書館システム
+      const failedSystems = result.systems.filter(system => system.status === 'Error').map(system => system.systemid);
+      if (failedSystems.length > 0) {
+        result.failedSystems = failedSystems;
+      }
+      
+      result.summary = summarizeAvailability(result.availability);
       return result;
     } catch (error) {
-      log(`Error formatting book result: ${error instanceof Error ? error.message : String(error)}`);
-      return { error: error instanceof Error ? error.message : String(error) };
+      log(`Error formatting book result: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      throw toBookSearchError(error, 'Calil');
     }
   }
 }
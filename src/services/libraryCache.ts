@@ -0,0 +1,202 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import { LogLevel, isLogLevelEnabled } from '../utils/logger.js';
+
+/**
+ * Logger utility
+ */
+function log(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  console.error(`[library-cache] ${message}`);
+}
+
+/**
+ * キャッシュの設定
+ */
+export interface LibraryCacheOptions {
+  /** 有効期間（ミリ秒） */
+  ttlMs: number;
+  /** メモリ上に保持する最大件数（超えた場合は最も使われていないものから破棄） */
+  maxEntries: number;
+  /** 永続化に使うJSONファイルのパス（未指定の場合はメモリのみ） */
+  filePath?: string;
+}
+
+/**
+ * キャッシュの参照結果
+ */
+export interface CacheStatus {
+  /** キャッシュから取得できたか */
+  hit: boolean;
+  /** 取得元 */
+  source: 'memory' | 'file' | 'api';
+  /** データを取得した日時（ISO 8601） */
+  fetchedAt: string;
+  /** キャッシュの有効期限（ISO 8601） */
+  expiresAt: string;
+}
+
+/**
+ * キャッシュの1エントリ
+ */
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * 永続化ファイルの形式
+ */
+interface CacheFile<T> {
+  version: 1;
+  entries: { [key: string]: CacheEntry<T> };
+}
+
+/**
+ * TTL付きのLRUキャッシュ（JSONファイルへの永続化に対応）
+ * 図書館一覧のように更新頻度の低いデータを保持する
+ */
+export class LibraryCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private fileEntries = new Map<string, CacheEntry<T>>();
+  private options: LibraryCacheOptions;
+
+  constructor(options: LibraryCacheOptions) {
+    this.options = options;
+    if (options.filePath) {
+      this.loadFile(options.filePath);
+    }
+  }
+
+  /**
+   * キャッシュから値を取得する（期限切れの場合はundefined）
+   * @param key キャッシュキー
+   */
+  get(key: string): { value: T; status: CacheStatus } | undefined {
+    const now = Date.now();
+    
+    const memoryEntry = this.entries.get(key);
+    if (memoryEntry && memoryEntry.expiresAt > now) {
+      // 最近使ったものとして末尾に移動
+      this.entries.delete(key);
+      this.entries.set(key, memoryEntry);
+      return { value: memoryEntry.value, status: this.toStatus(memoryEntry, true, 'memory') };
+    }
+    this.entries.delete(key);
+    
+    const fileEntry = this.fileEntries.get(key);
+    if (fileEntry && fileEntry.expiresAt > now) {
+      this.remember(key, fileEntry);
+      return { value: fileEntry.value, status: this.toStatus(fileEntry, true, 'file') };
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * 値をキャッシュに保存する
+   * @param key キャッシュキー
+   * @param value 保存する値
+   * @returns 保存した値のキャッシュ状態
+   */
+  set(key: string, value: T): CacheStatus {
+    const now = Date.now();
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + this.options.ttlMs };
+    
+    this.remember(key, entry);
+    
+    if (this.options.filePath) {
+      this.fileEntries.set(key, entry);
+      this.saveFile(this.options.filePath);
+    }
+    
+    return this.toStatus(entry, false, 'api');
+  }
+
+  /**
+   * 条件に一致するキャッシュを削除する
+   * @param predicate 削除対象のキーを判定する関数（未指定の場合はすべて削除）
+   * @returns 削除した件数
+   */
+  invalidate(predicate?: (key: string) => boolean): number {
+    const keys = new Set([...this.entries.keys(), ...this.fileEntries.keys()]);
+    let removed = 0;
+    
+    for (const key of keys) {
+      if (!predicate || predicate(key)) {
+        this.entries.delete(key);
+        this.fileEntries.delete(key);
+        removed++;
+      }
+    }
+    
+    if (removed > 0 && this.options.filePath) {
+      this.saveFile(this.options.filePath);
+    }
+    
+    return removed;
+  }
+
+  /**
+   * メモリ上のキャッシュに追加し、上限を超えた古いエントリを破棄する
+   */
+  private remember(key: string, entry: CacheEntry<T>): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * キャッシュ状態を生成する
+   */
+  private toStatus(entry: CacheEntry<T>, hit: boolean, source: CacheStatus['source']): CacheStatus {
+    return {
+      hit,
+      source,
+      fetchedAt: new Date(entry.storedAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString()
+    };
+  }
+
+  /**
+   * 永続化ファイルを読み込む（期限切れのエントリは読み捨てる）
+   */
+  private loadFile(filePath: string): void {
+    try {
+      const data = JSON.parse(readFileSync(filePath, 'utf-8')) as CacheFile<T>;
+      const now = Date.now();
+      
+      for (const [key, entry] of Object.entries(data.entries ?? {})) {
+        if (entry.expiresAt > now) {
+          this.fileEntries.set(key, entry);
+        }
+      }
+      log(`Loaded ${this.fileEntries.size} entries from ${filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log(`Error loading cache file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      }
+    }
+  }
+
+  /**
+   * 永続化ファイルに書き出す（失敗してもキャッシュの利用は継続する）
+   */
+  private saveFile(filePath: string): void {
+    try {
+      const data: CacheFile<T> = { version: 1, entries: Object.fromEntries(this.fileEntries) };
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(data));
+    } catch (error) {
+      log(`Error saving cache file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import { BookAvailabilityResult, LibraryInfo, summarizeAvailability } from '../types/calil.js';
+import { LibraryCategory } from '../utils/libraryFilter.js';
+import { LogLevel, isLogLevelEnabled } from '../utils/logger.js';
+
+/**
+ * Logger utility
+ */
+function log(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  console.error(`[profile] ${message}`);
+}
+
+/**
+ * 利用者のプロフィール
+ */
+export interface UserProfile {
+  /** 自宅の地域（正規化済みの都道府県・市区町村）。地域を省略した検索のデフォルトになる */
+  home?: { prefecture: string; city?: string };
+  /** よく使う図書館の図書館ID（結果の先頭に並べる） */
+  preferredLibraries: string[];
+  /** よく使う図書館システムID（よく使う図書館の次に並べる） */
+  preferredSystems: string[];
+  /** 結果から除く図書館種別（移動図書館 BM・大学図書館 UNIV など） */
+  excludedCategories: LibraryCategory[];
+  /** 最後に更新した日時（ISO 8601） */
+  updatedAt?: string;
+}
+
+/**
+ * プロフィールの変更内容（指定した項目だけを置き換える。home に null を指定すると自宅の地域を削除する）
+ */
+export interface ProfileUpdate {
+  home?: { prefecture: string; city?: string } | null;
+  preferredLibraries?: string[];
+  preferredSystems?: string[];
+  excludedCategories?: LibraryCategory[];
+}
+
+/**
+ * 永続化ファイルの形式
+ */
+interface ProfileFile {
+  version: 1;
+  profile: UserProfile;
+}
+
+/**
+ * プロフィールの設定
+ */
+export interface ProfileStoreOptions {
+  /** 永続化に使うJSONファイルのパス（未指定の場合はメモリのみ） */
+  filePath?: string;
+}
+
+function emptyProfile(): UserProfile {
+  return { preferredLibraries: [], preferredSystems: [], excludedCategories: [] };
+}
+
+/**
+ * 利用者のプロフィール（JSONファイルへの永続化に対応）
+ * ローカルで1人が使うことを前提に、プロフィールは1つだけ保持する
+ */
+export class ProfileStore {
+  private profile: UserProfile = emptyProfile();
+  private options: ProfileStoreOptions;
+
+  constructor(options: ProfileStoreOptions = {}) {
+    this.options = options;
+    if (options.filePath) {
+      this.loadFile(options.filePath);
+    }
+  }
+
+  /**
+   * 現在のプロフィール
+   */
+  get(): UserProfile {
+    return this.profile;
+  }
+
+  /**
+   * プロフィールを更新する
+   * @returns 更新後のプロフィール
+   */
+  update(changes: ProfileUpdate): UserProfile {
+    const { home, ...rest } = this.profile;
+    const nextHome = changes.home === undefined ? home : changes.home ?? undefined;
+
+    this.profile = {
+      ...rest,
+      ...(nextHome && { home: nextHome }),
+      ...(changes.preferredLibraries && { preferredLibraries: [...new Set(changes.preferredLibraries)] }),
+      ...(changes.preferredSystems && { preferredSystems: [...new Set(changes.preferredSystems)] }),
+      ...(changes.excludedCategories && { excludedCategories: [...new Set(changes.excludedCategories)] }),
+      updatedAt: new Date().toISOString(),
+    };
+    this.save();
+
+    return this.profile;
+  }
+
+  /**
+   * プロフィールを初期状態に戻す
+   */
+  reset(): UserProfile {
+    this.profile = emptyProfile();
+    this.save();
+    return this.profile;
+  }
+
+  private save(): void {
+    if (this.options.filePath) {
+      this.saveFile(this.options.filePath);
+    }
+  }
+
+  /**
+   * 永続化ファイルを読み込む
+   */
+  private loadFile(filePath: string): void {
+    try {
+      const data = JSON.parse(readFileSync(filePath, 'utf-8')) as ProfileFile;
+      this.profile = { ...emptyProfile(), ...data.profile };
+      log(`Loaded profile from ${filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log(`Error loading profile file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      }
+    }
+  }
+
+  /**
+   * 永続化ファイルに書き出す（失敗してもプロフィールの利用は継続する）
+   */
+  private saveFile(filePath: string): void {
+    try {
+      const data: ProfileFile = { version: 1, profile: this.profile };
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(data));
+    } catch (error) {
+      log(`Error saving profile file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }
+}
+
+/**
+ * プロフィールでの図書館の優先度（よく使う図書館 0、よく使う図書館システムの図書館 1、それ以外 2）
+ */
+function preferenceRank(library: LibraryInfo, profile: UserProfile): number {
+  if (profile.preferredLibraries.includes(library.libid)) {
+    return 0;
+  }
+  return profile.preferredSystems.includes(library.systemid) ? 1 : 2;
+}
+
+/**
+ * プロフィールに基づいて図書館を並べ替える
+ * 除外する種別の図書館を除き、よく使う図書館・よく使う図書館システムの図書館を先頭に並べて preferred を付ける
+ * （同じ優先度の図書館は元の順を保つ）
+ *
+ * @param libraries 図書館の配列
+ * @param profile プロフィール
+ * @param excludeCategories 除外する種別を適用するか（種別で絞り込む場合は適用しない）
+ */
+export function rankLibraries<T extends LibraryInfo>(libraries: T[], profile: UserProfile, excludeCategories: boolean = true): (T & { preferred?: true })[] {
+  return libraries
+    .filter(library => !excludeCategories || !profile.excludedCategories.includes(library.category as LibraryCategory))
+    .map(library => ({ library, rank: preferenceRank(library, profile) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ library, rank }) => (rank < 2 ? { ...library, preferred: true as const } : library));
+}
+
+/**
+ * プロフィールに基づいて蔵書検索結果の図書館を並べ替え、集計をやり直す
+ * 除外する種別の図書館は availability と summary から除く（systems・raw はCalil APIの結果のまま）
+ */
+export function rankAvailability<T extends BookAvailabilityResult>(result: T, profile: UserProfile): T {
+  const availability = result.availability
+    .filter(entry => !profile.excludedCategories.includes(entry.library.category as LibraryCategory))
+    .map(entry => ({ entry, rank: preferenceRank(entry.library, profile) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ entry, rank }) => (rank < 2 ? { ...entry, preferred: true } : entry));
+
+  return { ...result, availability, summary: summarizeAvailability(availability) };
+}
@@ -0,0 +1,222 @@
+import fetch, { Response } from 'node-fetch';
+
+import { RequestCancelledError, parseRetryAfter } from '../errors.js';
+import { LogLevel, isLogLevelEnabled } from '../utils/logger.js';
+
+/**
+ * Logger utility
+ */
+function log(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  console.error(`[scheduler] ${message}`);
+}
+
+/**
+ * HTTPクライアント（node-fetch と同じ呼び出し方）
+ * テストではモックに差し替える
+ */
+export type HttpClient = (url: string, init: { signal?: AbortSignal }) => Promise<Response>;
+
+/**
+ * スケジューラーの設定
+ */
+export interface RequestSchedulerOptions {
+  /** 1秒あたりに送信するリクエスト数の上限 */
+  requestsPerSecond: number;
+  /** 429 / 5xx の場合に再試行する回数 */
+  maxRetries: number;
+  /** 再試行までの待機時間の基準値（ミリ秒、再試行のたびに2倍になる） */
+  retryBaseDelayMs: number;
+  /** リクエストの送信に使うHTTPクライアント（省略時は node-fetch） */
+  httpClient?: HttpClient;
+}
+
+/**
+ * 実行中のリクエスト
+ */
+interface InFlightEntry {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** 結果を待っている呼び出し元の数 */
+  waiters: number;
+  /** 呼び出し元ごとの進捗通知先 */
+  listeners: Set<(event: unknown) => void>;
+}
+
+/**
+ * 指定時間待機する（シグナルが中断された場合はRequestCancelledErrorで終了）
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 外部APIへのリクエストを調停するスケジューラー
+ * - リクエストの送信間隔を requestsPerSecond 以下に抑える
+ * - 429 / 5xx の場合はジッター付きの指数バックオフで再試行する
+ * - 同じキーの実行中リクエストには相乗りし、APIを重複して呼び出さない
+ * セッションをまたいで共有し、サーバー全体での呼び出し頻度を制限する
+ */
+export class RequestScheduler {
+  private intervalMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private httpClient: HttpClient;
+  private nextSlotAt = 0;
+  private inFlight = new Map<string, InFlightEntry>();
+
+  constructor(options: RequestSchedulerOptions) {
+    this.intervalMs = 1000 / options.requestsPerSecond;
+    this.maxRetries = options.maxRetries;
+    this.retryBaseDelayMs = options.retryBaseDelayMs;
+    this.httpClient = options.httpClient ?? fetch;
+  }
+
+  /**
+   * 送信枠を確保し、枠の時刻まで待機する
+   */
+  private async acquireSlot(signal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + this.intervalMs;
+    if (slot > now) {
+      log(`Throttling request for ${slot - now}ms`, 'debug');
+      await sleep(slot - now, signal);
+    }
+  }
+
+  /**
+   * 再試行までの待機時間（Retry-Afterがあればそれを優先し、なければ指数バックオフにジッターを加える）
+   */
+  private retryDelay(response: Response, attempt: number): number {
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfter !== undefined) {
+      return retryAfter;
+    }
+    const base = this.retryBaseDelayMs * 2 ** attempt;
+    return Math.round(base / 2 + Math.random() * base / 2);
+  }
+
+  /**
+   * 送信間隔を守ってGETリクエストを送信する
+   * 429 / 5xx の場合は maxRetries まで再試行し、最後のレスポンスを返す（エラー判定は呼び出し元で行う）
+   * @param url リクエストURL
+   * @param signal リクエストのキャンセルを通知するシグナル
+   */
+  async fetch(url: string, signal?: AbortSignal): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireSlot(signal);
+      const response = await this.httpClient(url, { signal });
+
+      if ((response.status !== 429 && response.status < 500) || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      const delay = this.retryDelay(response, attempt);
+      log(`Request failed with status ${response.status}, retrying in ${delay}ms (${attempt + 1}/${this.maxRetries})`, 'warn');
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * 実行中のリクエストの登録を解除する（同じキーで新しく登録されたものは残す）
+   */
+  private release(key: string, entry: InFlightEntry): void {
+    if (this.inFlight.get(key) === entry) {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * 同じキーのリクエストが実行中であれば相乗りし、なければ新しく実行する
+   * 実行は呼び出し元すべてがキャンセルした場合にのみ中断される
+   * @param key リクエストを識別するキー
+   * @param task 実行する処理（共有のシグナルと進捗通知の関数を受け取る）
+   * @param options 呼び出し元のシグナルと進捗通知先
+   */
+  coalesce<T, E = never>(
+    key: string,
+    task: (signal: AbortSignal, emit: (event: E) => void) => Promise<T>,
+    options: { signal?: AbortSignal; onEvent?: (event: E) => void } = {}
+  ): Promise<T> {
+    const { signal, onEvent } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError());
+    }
+
+    let entry = this.inFlight.get(key);
+    if (entry) {
+      log(`Joining in-flight request: ${key}`, 'debug');
+    } else {
+      const controller = new AbortController();
+      const listeners = new Set<(event: unknown) => void>();
+      const created: InFlightEntry = {
+        promise: task(controller.signal, event => listeners.forEach(listener => listener(event)))
+          .finally(() => this.release(key, created)),
+        controller,
+        waiters: 0,
+        listeners
+      };
+      entry = created;
+      this.inFlight.set(key, entry);
+    }
+
+    const current = entry;
+    const listener = onEvent as ((event: unknown) => void) | undefined;
+    current.waiters++;
+    if (listener) {
+      current.listeners.add(listener);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let left = false;
+      const leave = () => {
+        if (left) {
+          return;
+        }
+        left = true;
+        signal?.removeEventListener('abort', onAbort);
+        if (listener) {
+          current.listeners.delete(listener);
+        }
+        current.waiters--;
+      };
+      const onAbort = () => {
+        leave();
+        if (current.waiters === 0) {
+          current.controller.abort();
+          this.release(key, current);
+        }
+        reject(new RequestCancelledError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      (current.promise as Promise<T>).then(
+        value => {
+          leave();
+          resolve(value);
+        },
+        error => {
+          leave();
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,334 @@
+import { randomUUID } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import { CalilApiService } from './calilApi.js';
+import { BookSearchErrorPayload, RequestCancelledError, WatchNotFoundError, toBookSearchError } from '../errors.js';
+import { BookAvailabilityResult, LendingStatus } from '../types/calil.js';
+import { LogLevel, isLogLevelEnabled } from '../utils/logger.js';
+
+/**
+ * Logger utility
+ */
+function log(message: string, level: LogLevel = 'info'): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  console.error(`[watchlist] ${message}`);
+}
+
+/**
+ * 監視中の図書館1館の貸出状態
+ */
+export interface WatchedLibraryStatus {
+  libid: string;
+  formal: string;
+  systemid: string;
+  status: LendingStatus;
+  statusLabel: string;
+}
+
+/**
+ * 監視対象（ISBNと地域の組）
+ */
+export interface WatchEntry {
+  id: string;
+  /** ISBN-13 */
+  isbn: string;
+  title?: string;
+  prefecture: string;
+  city: string;
+  /** 登録日時（ISO 8601） */
+  createdAt: string;
+  /** 最後に確認した日時（ISO 8601） */
+  lastCheckedAt?: string;
+  /** 最後に確認した図書館ごとの貸出状態（図書館IDをキーとする） */
+  lastStatuses?: { [libid: string]: WatchedLibraryStatus };
+}
+
+/**
+ * 前回の確認からの貸出状態の変化
+ * from / to が null の場合は、その時点の検索結果に図書館が含まれていなかった（所蔵なし）
+ */
+export interface WatchStatusChange {
+  libid: string;
+  formal: string;
+  from: { status: LendingStatus; statusLabel: string } | null;
+  to: { status: LendingStatus; statusLabel: string } | null;
+}
+
+/**
+ * 監視対象1件の確認結果
+ */
+export interface WatchCheckResult {
+  watch: WatchEntry;
+  /** 初めての確認（比較対象がないため changes は空） */
+  firstCheck: boolean;
+  changes: WatchStatusChange[];
+  /** 確認に失敗した場合のエラー */
+  error?: BookSearchErrorPayload;
+}
+
+/**
+ * 監視リストの変更通知
+ */
+export interface WatchlistEvent {
+  type: 'added' | 'removed' | 'changed';
+  watch: WatchEntry;
+}
+
+/**
+ * 永続化ファイルの形式
+ */
+interface WatchlistFile {
+  version: 1;
+  watches: WatchEntry[];
+}
+
+/**
+ * 監視リストの設定
+ */
+export interface WatchlistStoreOptions {
+  /** 永続化に使うJSONファイルのパス（未指定の場合はメモリのみ） */
+  filePath?: string;
+}
+
+/**
+ * 蔵書検索結果から図書館ごとの貸出状態を取り出す
+ */
+function toStatuses(result: BookAvailabilityResult): { [libid: string]: WatchedLibraryStatus } {
+  const statuses: { [libid: string]: WatchedLibraryStatus } = {};
+  for (const entry of result.availability) {
+    statuses[entry.library.libid] = {
+      libid: entry.library.libid,
+      formal: entry.library.formal,
+      systemid: entry.library.systemid,
+      status: entry.status,
+      statusLabel: entry.statusLabel,
+    };
+  }
+  return statuses;
+}
+
+/**
+ * 2つの時点の貸出状態を比較し、変化した図書館を返す
+ */
+function diffStatuses(
+  previous: { [libid: string]: WatchedLibraryStatus },
+  current: { [libid: string]: WatchedLibraryStatus }
+): WatchStatusChange[] {
+  const changes: WatchStatusChange[] = [];
+
+  for (const libid of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    const before = previous[libid];
+    const after = current[libid];
+    if (before?.statusLabel === after?.statusLabel) {
+      continue;
+    }
+    changes.push({
+      libid,
+      formal: (after ?? before).formal,
+      from: before ? { status: before.status, statusLabel: before.statusLabel } : null,
+      to: after ? { status: after.status, statusLabel: after.statusLabel } : null,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * 本の貸出状況の監視リスト（JSONファイルへの永続化に対応）
+ * 確認のたびに図書館ごとの貸出状態を記録し、前回からの変化を求める
+ */
+export class WatchlistStore {
+  private watches = new Map<string, WatchEntry>();
+  private listeners = new Set<(event: WatchlistEvent) => void>();
+  private options: WatchlistStoreOptions;
+
+  constructor(options: WatchlistStoreOptions = {}) {
+    this.options = options;
+    if (options.filePath) {
+      this.loadFile(options.filePath);
+    }
+  }
+
+  /**
+   * 監視対象の一覧（登録順）
+   */
+  list(): WatchEntry[] {
+    return [...this.watches.values()];
+  }
+
+  /**
+   * 監視対象を取得する
+   */
+  get(id: string): WatchEntry | undefined {
+    return this.watches.get(id);
+  }
+
+  /**
+   * 監視対象を登録する（同じISBN・地域が登録済みの場合は既存のものを返す）
+   * @returns 監視対象と、新しく登録したかどうか
+   */
+  add(target: { isbn: string; title?: string; prefecture: string; city: string }): { watch: WatchEntry; created: boolean } {
+    const existing = this.list().find(watch =>
+      watch.isbn === target.isbn && watch.prefecture === target.prefecture && watch.city === target.city);
+    if (existing) {
+      return { watch: existing, created: false };
+    }
+
+    const watch: WatchEntry = {
+      id: randomUUID().slice(0, 8),
+      isbn: target.isbn,
+      ...(target.title && { title: target.title }),
+      prefecture: target.prefecture,
+      city: target.city,
+      createdAt: new Date().toISOString(),
+    };
+    this.watches.set(watch.id, watch);
+    this.save();
+    this.emit({ type: 'added', watch });
+
+    return { watch, created: true };
+  }
+
+  /**
+   * 監視対象を削除する
+   * @returns 削除した監視対象（存在しない場合はundefined）
+   */
+  remove(id: string): WatchEntry | undefined {
+    const watch = this.watches.get(id);
+    if (!watch) {
+      return undefined;
+    }
+
+    this.watches.delete(id);
+    this.save();
+    this.emit({ type: 'removed', watch });
+
+    return watch;
+  }
+
+  /**
+   * 蔵書検索の結果を記録し、前回の確認からの変化を返す
+   * 期限内に検索が完了しなかった図書館システムの図書館は、前回の状態を引き継ぐ
+   */
+  recordCheck(id: string, result: BookAvailabilityResult): WatchCheckResult {
+    const watch = this.watches.get(id);
+    if (!watch) {
+      throw new WatchNotFoundError(id);
+    }
+
+    const previous = watch.lastStatuses;
+    const current = toStatuses(result);
+    for (const status of Object.values(previous ?? {})) {
+      if (result.pendingSystems?.includes(status.systemid) || result.failedSystems?.includes(status.systemid)) {
+        current[status.libid] ??= status;
+      }
+    }
+
+    const changes = previous ? diffStatuses(previous, current) : [];
+    watch.lastCheckedAt = new Date().toISOString();
+    watch.lastStatuses = current;
+    if (!watch.title && result.title) {
+      watch.title = result.title;
+    }
+    this.save();
+
+    if (changes.length > 0) {
+      this.emit({ type: 'changed', watch });
+    }
+
+    return { watch, firstCheck: !previous, changes };
+  }
+
+  /**
+   * 監視リストの変更を購読する
+   * @returns 購読を解除する関数
+   */
+  subscribe(listener: (event: WatchlistEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(event: WatchlistEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private save(): void {
+    if (this.options.filePath) {
+      this.saveFile(this.options.filePath);
+    }
+  }
+
+  /**
+   * 永続化ファイルを読み込む
+   */
+  private loadFile(filePath: string): void {
+    try {
+      const data = JSON.parse(readFileSync(filePath, 'utf-8')) as WatchlistFile;
+      for (const watch of data.watches ?? []) {
+        this.watches.set(watch.id, watch);
+      }
+      log(`Loaded ${this.watches.size} watches from ${filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log(`Error loading watchlist file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      }
+    }
+  }
+
+  /**
+   * 永続化ファイルに書き出す（失敗しても監視リストの利用は継続する）
+   */
+  private saveFile(filePath: string): void {
+    try {
+      const data: WatchlistFile = { version: 1, watches: this.list() };
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(data));
+    } catch (error) {
+      log(`Error saving watchlist file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }
+}
+
+/**
+ * 監視対象の蔵書を検索し、前回の確認からの変化を記録する
+ * 1件の確認に失敗しても残りの確認は続ける（キャンセルされた場合は中断する）
+ *
+ * @param store 監視リスト
+ * @param calilApiService 蔵書検索に使うサービス
+ * @param options 確認する監視対象ID（省略時はすべて）、キャンセルのシグナル、1件確認するたびに呼ばれる関数
+ */
+export async function checkWatches(
+  store: WatchlistStore,
+  calilApiService: CalilApiService,
+  options: { ids?: string[]; signal?: AbortSignal; onChecked?: (checked: number, total: number) => void } = {}
+): Promise<WatchCheckResult[]> {
+  const watches = options.ids
+    ? options.ids.map(id => store.get(id)).filter((watch): watch is WatchEntry => watch !== undefined)
+    : store.list();
+  const results: WatchCheckResult[] = [];
+
+  for (const watch of watches) {
+    try {
+      const result = await calilApiService.searchBookInCity(watch.isbn, watch.prefecture, watch.city, watch.title, { signal: options.signal });
+      const checked = store.recordCheck(watch.id, result);
+      if (checked.changes.length > 0) {
+        log(`Availability of ${watch.isbn} in ${watch.prefecture} ${watch.city} changed at ${checked.changes.length} libraries`);
+      }
+      results.push(checked);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      log(`Error checking watch ${watch.id}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      results.push({ watch, firstCheck: !watch.lastStatuses, changes: [], error: toBookSearchError(error).toJSON() });
+    }
+    options.onChecked?.(results.length, watches.length);
+  }
+
+  return results;
+}
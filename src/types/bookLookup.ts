@@ -0,0 +1,53 @@
+/**
+ * 書誌情報検索（タイトル・著者からISBNを解決する層）に関する型定義
+ */
+
+/**
+ * 書誌検索の条件
+ */
+export interface BookLookupQuery {
+  /** タイトル */
+  title?: string;
+  /** 著者名 */
+  author?: string;
+  /** タイトル・著者などを区別しないキーワード */
+  keyword?: string;
+  /** 取得する候補の最大件数 */
+  limit?: number;
+}
+
+/**
+ * 書誌検索の実行時の設定
+ */
+export interface BookLookupOptions {
+  /** 検索のキャンセルを通知するシグナル */
+  signal?: AbortSignal;
+}
+
+/**
+ * 書誌検索で見つかった書籍の候補
+ */
+export interface BookCandidate {
+  /** ISBN-13に正規化されたISBN */
+  isbn: string;
+  title: string;
+  author?: string;
+  publisher?: string;
+  /** 出版年など */
+  issued?: string;
+}
+
+/**
+ * 書誌情報プロバイダのインターフェース
+ * NDLサーチなどの外部サービスや、テスト用のローカルデータを差し替えて利用する
+ */
+export interface BookLookupProvider {
+  /** プロバイダ名（レスポンスに含める） */
+  readonly name: string;
+
+  /**
+   * タイトル・著者・キーワードから書籍の候補を検索する
+   * ISBNを持たない書誌は含めない
+   */
+  search(query: BookLookupQuery, options?: BookLookupOptions): Promise<BookCandidate[]>;
+}
@@ -99,6 +99,36 @@ export type BookAvailabilityStatus = 'OK' | 'Cache' | 'Running' | 'Error';
  */
 export type BookLendingStatus = '貸出可' | '蔵書あり' | '館内のみ' | '貸出中' | '予約中' | '準備中' | '休館中' | '蔵書なし' | '指定館ではない' | '-';
 
+/**
+ * 正規化した貸出状態
+ * - available: すぐに借りられる（貸出可）
+ * - on_loan: 貸出中
+ * - reference_only: 館内閲覧のみ
+ * - reserved: 予約が入っている
+ * - not_held: 所蔵していない
+ * - closed: 休館中
+ * - unknown: 所蔵はあるが貸出状況が不明（蔵書あり・準備中）、または状態を取得できなかった
+ */
+export type LendingStatus = 'available' | 'on_loan' | 'reference_only' | 'reserved' | 'not_held' | 'closed' | 'unknown';
+
+export const LENDING_STATUSES: readonly LendingStatus[] = ['available', 'on_loan', 'reference_only', 'reserved', 'not_held', 'closed', 'unknown'];
+
+/**
+ * Calil APIの貸出状態と正規化した貸出状態の対応
+ */
+const LENDING_STATUS_MAP: Record<BookLendingStatus, LendingStatus> = {
+  '貸出可': 'available',
+  '蔵書あり': 'unknown',
+  '館内のみ': 'reference_only',
+  '貸出中': 'on_loan',
+  '予約中': 'reserved',
+  '準備中': 'unknown',
+  '休館中': 'closed',
+  '蔵書なし': 'not_held',
+  '指定館ではない': 'not_held',
+  '-': 'unknown',
+};
+
 /**
  * 単一図書館の蔵書状態
  */
@@ -110,15 +140,14 @@ export interface LibraryBookStatus {
 
 /**
  * 図書館システム単位での蔵書状態
+ * libkey の値は図書館キーごとの貸出状態の文字列
  */
 export interface SystemBookStatus {
   status: BookAvailabilityStatus;
-  books: {
-    [isbn: string]: {
-      [libkey: string]: LibraryBookStatus;
-    };
+  libkey: {
+    [libkey: string]: string;
   };
-  reserve?: string;
+  reserveurl?: string;
 }
 
 /**
@@ -127,7 +156,6 @@ export interface SystemBookStatus {
 export interface BookSearchRawResponse {
   session: string;
   continue: 0 | 1;
-  status: BookAvailabilityStatus;
   books: {
     [isbn: string]: {
       [systemid: string]: SystemBookStatus;
@@ -135,18 +163,214 @@ export interface BookSearchRawResponse {
   };
 }
 
+/**
+ * 指定地点からの距離を付加した図書館情報
+ */
+export interface NearbyLibraryInfo extends LibraryInfo {
+  distanceKm: number;
+}
+
+/**
+ * 図書館1館の蔵書状態
+ */
+export interface LibraryAvailability {
+  library: LibraryInfo;
+  /** 正規化した貸出状態 */
+  status: LendingStatus;
+  /** Calil APIが返した貸出状態（仕様にない値もそのまま入る） */
+  statusLabel: string;
+  reserveUrl?: string;
+  /** 指定地点からの距離（近くの図書館で検索した場合のみ） */
+  distanceKm?: number;
+  /** 利用者のプロフィールでよく使う図書館（または図書館システム）に登録されている */
+  preferred?: boolean;
+}
+
+/**
+ * ISBNごとの貸出状況の集計
+ */
+export interface AvailabilitySummary {
+  /** 結果に含まれる図書館数 */
+  libraryCount: number;
+  /** すぐに借りられる図書館数 */
+  availableCount: number;
+  /** 貸出状態ごとの図書館数 */
+  byStatus: Record<LendingStatus, number>;
+  /** すぐに借りられる図書館（正式名称） */
+  availableAt: string[];
+  /** 貸出中の図書館（正式名称） */
+  onLoanAt: string[];
+}
+
+/**
+ * 図書館一覧にない図書館キーの蔵書状態
+ * Calil APIが返した分館のうち、検索範囲の図書館一覧に含まれないもの
+ */
+export interface UnmatchedLibraryStatus {
+  libkey: string;
+  status: LendingStatus;
+  statusLabel: string;
+}
+
+/**
+ * 図書館システム単位の蔵書検索結果
+ * - status が OK / Cache で libraries・unmatchedLibraries が空の場合は、どの図書館も所蔵していない
+ * - status が Running の場合は期限内に検索が完了しなかった
+ * - status が Error の場合は図書館システム側で検索に失敗した
+ */
+export interface SystemAvailability {
+  systemid: string;
+  systemname?: string;
+  /** 図書館システムの検索状態 */
+  status: BookAvailabilityStatus;
+  /** 図書館システムの予約URL */
+  reserveUrl?: string;
+  /** 図書館一覧に含まれる図書館の蔵書状態 */
+  libraries: {
+    libid: string;
+    libkey: string;
+    formal: string;
+    status: LendingStatus;
+    statusLabel: string;
+  }[];
+  /** 図書館一覧に含まれない図書館キーの蔵書状態 */
+  unmatchedLibraries: UnmatchedLibraryStatus[];
+}
+
 /**
  * 整形された蔵書検索結果
  */
 export interface BookAvailabilityResult {
   isbn: string;
   title?: string;
-  availability: {
-    library: LibraryInfo;
-    status: BookLendingStatus;
-    reserveUrl?: string;
-  }[];
-  raw: BookSearchRawResponse;
+  summary: AvailabilitySummary;
+  availability: LibraryAvailability[];
+  /** 図書館システムごとの検索結果（検索に失敗・未完了のシステムも含む） */
+  systems: SystemAvailability[];
+  /** このISBNに対する図書館システムごとの生の検索結果 */
+  raw: {
+    [systemid: string]: SystemBookStatus;
+  };
+  /** 蔵書検索が期限内に完了せず、一部の図書館システムの結果が含まれていない */
+  partial?: boolean;
+  /** 検索が完了しなかった図書館システムID（partial の場合のみ） */
+  pendingSystems?: string[];
+  /** 検索に失敗した図書館システムID */
+  failedSystems?: string[];
+}
+
+const BOOK_LENDING_STATUSES: readonly string[] = ['貸出可', '蔵書あり', '館内のみ', '貸出中', '予約中', '準備中', '休館中', '蔵書なし', '指定館ではない', '-'];
+const BOOK_AVAILABILITY_STATUSES: readonly string[] = ['OK', 'Cache', 'Running', 'Error'];
+
+/**
+ * 貸出状態として正しいかを判定する
+ */
+export function isBookLendingStatus(value: unknown): value is BookLendingStatus {
+  return typeof value === 'string' && BOOK_LENDING_STATUSES.includes(value);
+}
+
+/**
+ * Calil APIの貸出状態を正規化する（仕様にない値は unknown）
+ */
+export function normalizeLendingStatus(status: string): LendingStatus {
+  return isBookLendingStatus(status) ? LENDING_STATUS_MAP[status] : 'unknown';
+}
+
+/**
+ * 図書館ごとの貸出状況を集計する
+ */
+export function summarizeAvailability(availability: LibraryAvailability[]): AvailabilitySummary {
+  const byStatus = Object.fromEntries(LENDING_STATUSES.map(status => [status, 0])) as Record<LendingStatus, number>;
+  for (const entry of availability) {
+    byStatus[entry.status]++;
+  }
+  
+  const namesWith = (status: LendingStatus) =>
+    availability.filter(entry => entry.status === status).map(entry => entry.library.formal);
+  
+  return {
+    libraryCount: availability.length,
+    availableCount: byStatus.available,
+    byStatus,
+    availableAt: namesWith('available'),
+    onLoanAt: namesWith('on_loan'),
+  };
+}
+
+/**
+ * 値がオブジェクト（配列・nullを除く）かを判定する
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 図書館APIのレスポンスを検証し、図書館情報の配列に変換する
+ * 図書館の特定に必要な項目（libid / systemid / libkey）を持たない要素は除外する
+ * 
+ * @param data 図書館APIのレスポンス
+ * @returns 整形された図書館情報の配列（レスポンスが配列でない場合はnull）
+ */
+export function parseLibraryListResponse(data: unknown): LibraryInfo[] | null {
+  if (!Array.isArray(data)) {
+    return null;
+  }
+  
+  const valid = data.filter((item): item is CalilLibraryRawData =>
+    isRecord(item)
+    && typeof item.libid === 'string' && item.libid !== ''
+    && typeof item.systemid === 'string' && item.systemid !== ''
+    && typeof item.libkey === 'string' && item.libkey !== ''
+  );
+  
+  return extractLibraryInfo(valid);
+}
+
+/**
+ * 蔵書検索APIのレスポンスを検証・正規化する
+ * 不正な図書館システムのデータは状態を 'Error' とし、文字列でない貸出状態は除外する
+ * 
+ * @param data 蔵書検索APIのレスポンス
+ * @returns 正規化されたレスポンス（必須項目が欠けている場合はnull）
+ */
+export function parseBookSearchRawResponse(data: unknown): BookSearchRawResponse | null {
+  if (!isRecord(data) || typeof data.session !== 'string' || (data.continue !== 0 && data.continue !== 1)) {
+    return null;
+  }
+  
+  const books: BookSearchRawResponse['books'] = {};
+  
+  if (isRecord(data.books)) {
+    for (const [isbn, systems] of Object.entries(data.books)) {
+      if (!isRecord(systems)) {
+        continue;
+      }
+      
+      books[isbn] = {};
+      for (const [systemid, system] of Object.entries(systems)) {
+        const status = isRecord(system) && typeof system.status === 'string' && BOOK_AVAILABILITY_STATUSES.includes(system.status)
+          ? system.status as BookAvailabilityStatus
+          : 'Error';
+        
+        const libkey: SystemBookStatus['libkey'] = {};
+        if (isRecord(system) && isRecord(system.libkey)) {
+          for (const [key, value] of Object.entries(system.libkey)) {
+            if (typeof value === 'string') {
+              libkey[key] = value;
+            }
+          }
+        }
+        
+        books[isbn][systemid] = {
+          status,
+          libkey,
+          ...(isRecord(system) && typeof system.reserveurl === 'string' && system.reserveurl !== '' && { reserveurl: system.reserveurl })
+        };
+      }
+    }
+  }
+  
+  return { session: data.session, continue: data.continue, books };
 }
 
 /**
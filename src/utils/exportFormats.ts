@@ -0,0 +1,378 @@
+import { BookAvailabilityResult, LendingStatus, LibraryAvailability, LibraryInfo } from '../types/calil.js';
+import { parseGeocode } from './geo.js';
+
+/**
+ * 蔵書検索結果の出力形式
+ * - json: search_books の結果そのもの
+ * - csv: 1行に1冊×1館（見出し行あり、RFC 4180）
+ * - markdown: Markdown の表（ドキュメントへの貼り付け用）
+ * - geojson: 図書館ごとの Point の FeatureCollection（地図表示用）
+ * - ics: 本を借りられる図書館への来館リマインダー（iCalendar）
+ */
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'geojson' | 'ics';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'csv', 'markdown', 'geojson', 'ics'];
+
+/**
+ * 書き出しに必要な蔵書検索結果の項目
+ */
+export type ExportableResult = Pick<BookAvailabilityResult, 'isbn' | 'title' | 'availability' | 'partial'>;
+
+/**
+ * 書き出しのオプション
+ */
+export interface ExportOptions {
+  /** 来館予定日（YYYY-MM-DD、ics のみ。省略時は今日） */
+  visitDate?: string;
+  /** 書き出した日時（ics の DTSTAMP、省略時は現在時刻） */
+  now?: Date;
+}
+
+/**
+ * 書き出した結果
+ */
+export interface ExportedResults {
+  format: ExportFormat;
+  mimeType: string;
+  /** 保存する場合のファイル名 */
+  fileName: string;
+  content: string;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  markdown: 'text/markdown',
+  geojson: 'application/geo+json',
+  ics: 'text/calendar',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md',
+  geojson: 'geojson',
+  ics: 'ics',
+};
+
+/**
+ * 来館リマインダーの対象とする貸出状態（その場で借りる・読むことができる）
+ */
+const VISIT_STATUSES: readonly LendingStatus[] = ['available', 'reference_only'];
+
+/**
+ * 地図のマーカーの色（simplestyle-spec の marker-color）
+ */
+const MARKER_COLORS = { available: '#2e7d32', onLoan: '#f9a825', other: '#757575' };
+
+/**
+ * 出力形式として正しいかを判定する
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isExportableResult(value: unknown): value is ExportableResult {
+  return isRecord(value)
+    && typeof value.isbn === 'string'
+    && Array.isArray(value.availability)
+    && value.availability.every(entry =>
+      isRecord(entry) && isRecord(entry.library) && typeof entry.library.formal === 'string' && typeof entry.status === 'string'
+    );
+}
+
+/**
+ * search_books の結果（単一ISBNの結果・複数ISBNの results・結果の配列、またはそのJSON文字列）から
+ * 書き出し対象の蔵書検索結果を取り出す
+ *
+ * @returns 蔵書検索結果の配列（形式が正しくない場合はnull）
+ */
+export function toExportableResults(value: unknown): ExportableResult[] | null {
+  let data = value;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  const results = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.results) ? data.results : [data];
+  return results.length > 0 && results.every(isExportableResult) ? results : null;
+}
+
+/**
+ * 蔵書検索結果を指定の形式で書き出す
+ *
+ * @param results 蔵書検索結果（formatBookResult の出力）
+ * @param format 出力形式
+ * @param options 書き出しのオプション
+ */
+export function exportResults(results: ExportableResult[], format: ExportFormat, options: ExportOptions = {}): ExportedResults {
+  const baseName = results.length === 1 ? `availability-${results[0].isbn}` : 'availability';
+  return {
+    format,
+    mimeType: MIME_TYPES[format],
+    fileName: `${baseName}.${FILE_EXTENSIONS[format]}`,
+    content: render(results, format, options),
+  };
+}
+
+function render(results: ExportableResult[], format: ExportFormat, options: ExportOptions): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(results);
+    case 'markdown':
+      return toMarkdown(results);
+    case 'geojson':
+      return JSON.stringify(toGeoJson(results), null, 2);
+    case 'ics':
+      return toIcs(results, options);
+    default:
+      return JSON.stringify(results.length === 1 ? results[0] : results, null, 2);
+  }
+}
+
+/**
+ * 所蔵館がない本の貸出状態（検索が完了しなかった場合は不明）
+ */
+function missingStatus(result: ExportableResult): LendingStatus {
+  return result.partial ? 'unknown' : 'not_held';
+}
+
+/**
+ * 外部から渡された結果に欠けている項目を空文字列として扱う
+ */
+function text(value: string | number | undefined | null): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+// ----- CSV -----
+
+const CSV_COLUMNS = [
+  'isbn', 'title', 'status', 'status_label', 'library', 'libid', 'systemid', 'systemname',
+  'address', 'tel', 'url', 'reserve_url', 'distance_km',
+];
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 1行に1冊×1館のCSV。所蔵館がない本も1行で出力する
+ */
+function toCsv(results: ExportableResult[]): string {
+  const rows = results.flatMap(result => {
+    if (result.availability.length === 0) {
+      return [[result.isbn, text(result.title), missingStatus(result), '', '', '', '', '', '', '', '', '', '']];
+    }
+    return result.availability.map(({ library, status, statusLabel, reserveUrl, distanceKm }) => [
+      result.isbn, text(result.title), status, text(statusLabel), text(library.formal), text(library.libid),
+      text(library.systemid), text(library.systemname), text(library.address), text(library.tel),
+      text(library.url_pc), text(reserveUrl), text(distanceKm),
+    ]);
+  });
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ----- Markdown -----
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*[\r\n]+\s*/g, ' ');
+}
+
+function markdownLink(label: string, url: string | undefined): string {
+  return url ? `[${label.replace(/[[\]]/g, '\\$&')}](${url.replace(/[()\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)})` : label;
+}
+
+/**
+ * 書名・ISBN・図書館・貸出状況・予約リンクの表
+ */
+function toMarkdown(results: ExportableResult[]): string {
+  const rows = results.flatMap(result => {
+    const book = [text(result.title) || '-', result.isbn];
+    if (result.availability.length === 0) {
+      return [[...book, '-', result.partial ? '検索未完了' : '所蔵なし', '-']];
+    }
+    return result.availability.map(({ library, statusLabel, status, reserveUrl }) => [
+      ...book,
+      markdownLink(text(library.formal), library.url_pc),
+      text(statusLabel) || status,
+      reserveUrl ? markdownLink('予約', reserveUrl) : '-',
+    ]);
+  });
+
+  return [
+    '| 書名 | ISBN | 図書館 | 貸出状況 | 予約 |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+  ].join('\n') + '\n';
+}
+
+// ----- GeoJSON -----
+
+/**
+ * 図書館1館にある本とその蔵書状態
+ */
+interface LibraryGroup {
+  library: LibraryInfo;
+  books: { result: ExportableResult; entry: LibraryAvailability }[];
+}
+
+/**
+ * 同じ図書館の蔵書状態をまとめる（検索結果の順を保つ）
+ */
+function groupByLibrary(results: ExportableResult[]): LibraryGroup[] {
+  const groups = new Map<string, LibraryGroup>();
+  for (const result of results) {
+    for (const entry of result.availability) {
+      const key = entry.library.libid || entry.library.formal;
+      const group = groups.get(key) ?? { library: entry.library, books: [] };
+      group.books.push({ result, entry });
+      groups.set(key, group);
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * 図書館ごとの Point の FeatureCollection
+ * 座標は図書館情報の geocode（経度,緯度）を使い、座標のない図書館は含めない
+ */
+function toGeoJson(results: ExportableResult[]) {
+  const features = groupByLibrary(results).flatMap(({ library, books }) => {
+    const coordinates = parseGeocode(library.geocode);
+    if (!coordinates) {
+      return [];
+    }
+    const availableCount = books.filter(({ entry }) => entry.status === 'available').length;
+    const onLoan = books.some(({ entry }) => entry.status === 'on_loan' || entry.status === 'reserved');
+    const distanceKm = books.find(({ entry }) => entry.distanceKm !== undefined)?.entry.distanceKm;
+
+    return [{
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [coordinates.longitude, coordinates.latitude] },
+      properties: {
+        name: library.formal,
+        libid: text(library.libid),
+        systemid: text(library.systemid),
+        systemname: text(library.systemname),
+        address: text(library.address),
+        tel: text(library.tel),
+        url: text(library.url_pc),
+        ...(distanceKm !== undefined && { distanceKm }),
+        availableCount,
+        description: books.map(({ result, entry }) => `${text(result.title) || result.isbn}: ${text(entry.statusLabel) || entry.status}`).join('\n'),
+        books: books.map(({ result, entry }) => ({
+          isbn: result.isbn,
+          ...(result.title && { title: result.title }),
+          status: entry.status,
+          statusLabel: entry.statusLabel,
+          ...(entry.reserveUrl && { reserveUrl: entry.reserveUrl }),
+        })),
+        'marker-color': availableCount > 0 ? MARKER_COLORS.available : onLoan ? MARKER_COLORS.onLoan : MARKER_COLORS.other,
+      },
+    }];
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+// ----- iCalendar -----
+
+/**
+ * TEXT 型の値をエスケープする（RFC 5545 3.3.11）
+ */
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * 75オクテットを超える行を折り返す（RFC 5545 3.1、マルチバイト文字の途中では折り返さない）
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // 2行目以降は先頭の空白の1オクテットを含めて75オクテット以内にする
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * YYYY-MM-DD（省略時は now のローカル日付）を iCalendar の DATE（YYYYMMDD）にする
+ */
+function icsDate(visitDate: string | undefined, now: Date): { start: string; end: string } {
+  const date = visitDate
+    ? new Date(Number(visitDate.slice(0, 4)), Number(visitDate.slice(5, 7)) - 1, Number(visitDate.slice(8, 10)))
+    : new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const format = (value: Date) =>
+    `${value.getFullYear()}${String(value.getMonth() + 1).padStart(2, '0')}${String(value.getDate()).padStart(2, '0')}`;
+  const next = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return { start: format(date), end: format(next) };
+}
+
+/**
+ * 本を借りられる（館内で読める）図書館ごとの終日の来館リマインダー
+ * 来館予定日の9時に通知する。対象の図書館がない場合は予定のないカレンダーになる
+ */
+function toIcs(results: ExportableResult[], options: ExportOptions): string {
+  const now = options.now ?? new Date();
+  const { start, end } = icsDate(options.visitDate, now);
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+  const events = groupByLibrary(results).flatMap(({ library, books }) => {
+    const visitBooks = books.filter(({ entry }) => VISIT_STATUSES.includes(entry.status));
+    if (visitBooks.length === 0) {
+      return [];
+    }
+    const coordinates = parseGeocode(library.geocode);
+    const description = [
+      ...visitBooks.map(({ result, entry }) => `${text(result.title) || result.isbn}（ISBN ${result.isbn}）: ${text(entry.statusLabel) || entry.status}`),
+      ...(library.url_pc ? [library.url_pc] : []),
+    ].join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${library.libid || encodeURIComponent(library.formal)}-${start}@mcp-book-search`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${start}`,
+      `DTEND;VALUE=DATE:${end}`,
+      `SUMMARY:${icsText(`図書館で本を借りる: ${library.formal}`)}`,
+      ...(library.address ? [`LOCATION:${icsText(library.address)}`] : []),
+      ...(coordinates ? [`GEO:${coordinates.latitude};${coordinates.longitude}`] : []),
+      ...(library.url_pc ? [`URL:${library.url_pc}`] : []),
+      `DESCRIPTION:${icsText(description)}`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:PT9H',
+      `DESCRIPTION:${icsText(`${library.formal}へ行く`)}`,
+      'END:VALARM',
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//mcp-book-search//Library visits//JA',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,379 @@
+import { MUNICIPALITY_DATA } from './municipalities.js';
+import { PREFECTURES, PREFECTURE_READINGS } from './prefectures.js';
+
+/**
+ * 都道府県・市区町村の名称
+ */
+export interface AreaName {
+  prefecture: string;
+  /** 市区町村名（都道府県のみの場合は省略） */
+  city?: string;
+}
+
+/**
+ * 地名の照合結果
+ * - resolved: 1件に特定できた
+ * - ambiguous: 複数の候補があり特定できない
+ * - unknown: 該当なし（似た名前の候補を suggestions に含める）
+ */
+export type AreaMatch =
+  | { status: 'resolved'; area: AreaName }
+  | { status: 'ambiguous'; candidates: AreaName[] }
+  | { status: 'unknown'; suggestions: AreaName[] };
+
+/**
+ * 照合対象の地名（都道府県または市区町村）
+ */
+interface Place {
+  prefecture: string;
+  name: string;
+  /** 末尾の種別（都・道・府・県・市・区・町・村） */
+  kind: string;
+  /** 漢字表記の照合キー */
+  full: string;
+  /** 種別を除いた漢字表記の照合キー */
+  stem: string;
+  /** 種別を除いた読みのローマ字の照合キー */
+  romaji: string;
+}
+
+/**
+ * ローマ字表記の種別の接尾辞と、それに対応する種別
+ */
+interface RomajiSuffix {
+  suffix: string;
+  kinds: string;
+}
+
+const PREFECTURE_SUFFIXES: RomajiSuffix[] = [
+  { suffix: 'prefecture', kinds: '都道府県' },
+  { suffix: 'pref', kinds: '都道府県' },
+  { suffix: 'metropolis', kinds: '都' },
+  { suffix: 'to', kinds: '都' },
+  { suffix: 'fu', kinds: '府' },
+  { suffix: 'ken', kinds: '県' },
+];
+
+const MUNICIPALITY_SUFFIXES: RomajiSuffix[] = [
+  { suffix: 'city', kinds: '市' },
+  { suffix: 'shi', kinds: '市' },
+  { suffix: 'ward', kinds: '区' },
+  { suffix: 'ku', kinds: '区' },
+  { suffix: 'town', kinds: '町' },
+  { suffix: 'machi', kinds: '町' },
+  { suffix: 'cho', kinds: '町' },
+  { suffix: 'village', kinds: '村' },
+  { suffix: 'mura', kinds: '村' },
+  { suffix: 'son', kinds: '村' },
+];
+
+/** 候補として返す最大件数 */
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * ひらがなのヘボン式ローマ字（拗音などの2文字の組み合わせを先に照合する）
+ */
+const KANA_ROMAJI: Record<string, string> = (() => {
+  const table: Record<string, string> = {};
+  const rows: [string, string][] = [
+    ['あいうえお', 'a i u e o'], ['かきくけこ', 'ka ki ku ke ko'], ['さしすせそ', 'sa shi su se so'],
+    ['たちつてと', 'ta chi tsu te to'], ['なにぬねの', 'na ni nu ne no'], ['はひふへほ', 'ha hi fu he ho'],
+    ['まみむめも', 'ma mi mu me mo'], ['やゆよ', 'ya yu yo'], ['らりるれろ', 'ra ri ru re ro'],
+    ['わゐゑをん', 'wa i e o n'], ['がぎぐげご', 'ga gi gu ge go'], ['ざじずぜぞ', 'za ji zu ze zo'],
+    ['だぢづでど', 'da ji zu de do'], ['ばびぶべぼ', 'ba bi bu be bo'], ['ぱぴぷぺぽ', 'pa pi pu pe po'],
+    ['ぁぃぅぇぉゕゖゔ', 'a i u e o ka ke vu'],
+  ];
+  for (const [kana, romaji] of rows) {
+    const syllables = romaji.split(' ');
+    [...kana].forEach((char, index) => { table[char] = syllables[index]; });
+  }
+  const youon: [string, string][] = [
+    ['き', 'ky'], ['し', 'sh'], ['ち', 'ch'], ['に', 'ny'], ['ひ', 'hy'], ['み', 'my'], ['り', 'ry'],
+    ['ぎ', 'gy'], ['じ', 'j'], ['ぢ', 'j'], ['び', 'by'], ['ぴ', 'py'],
+  ];
+  for (const [kana, consonant] of youon) {
+    table[`${kana}ゃ`] = `${consonant}a`;
+    table[`${kana}ゅ`] = `${consonant}u`;
+    table[`${kana}ょ`] = `${consonant}o`;
+  }
+  Object.assign(table, { 'ふぁ': 'fa', 'ふぃ': 'fi', 'ふぇ': 'fe', 'ふぉ': 'fo', 'てぃ': 'ti', 'でぃ': 'di' });
+  return table;
+})();
+
+/**
+ * ひらがなをヘボン式ローマ字に変換する（ひらがな以外の文字はそのまま残す）
+ */
+function toRomaji(text: string): string {
+  let result = '';
+  let doubled = false;
+
+  for (let index = 0; index < text.length;) {
+    const pair = KANA_ROMAJI[text.slice(index, index + 2)];
+    const syllable = pair ?? KANA_ROMAJI[text[index]] ?? (text[index] === 'っ' || text[index] === 'ー' ? '' : text[index]);
+    if (text[index] === 'っ') {
+      doubled = true;
+      index++;
+      continue;
+    }
+    // 促音は次の子音を重ねる（ch の前は t）
+    if (doubled && syllable) {
+      result += syllable.startsWith('ch') ? 't' : syllable[0];
+    }
+    doubled = false;
+    result += syllable;
+    index += pair ? 2 : 1;
+  }
+
+  return result;
+}
+
+/**
+ * 表記ゆれを吸収するための共通の正規化（全角英数・半角カナの統一、カタカナをひらがなに、小文字化、空白や記号の除去）
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+    .replace(/[āâ]/g, 'a').replace(/[īî]/g, 'i').replace(/[ūû]/g, 'u').replace(/[ēê]/g, 'e').replace(/[ōô]/g, 'o')
+    .replace(/[\s\-‐－・'’.,]/g, '');
+}
+
+/**
+ * 漢字表記の照合キー（ヶ・ケの表記ゆれを統一）
+ */
+function kanjiKey(text: string): string {
+  return normalizeText(text).replace(/[ゖゕ]/g, char => (char === 'ゖ' ? 'け' : 'か'));
+}
+
+/**
+ * ローマ字表記の照合キー
+ * 長音（ou / oo / uu / oh）、撥音（nn / m）、促音（cch / tch）の表記ゆれを統一する
+ */
+function romajiKey(text: string): string {
+  return toRomaji(normalizeText(text))
+    .replace(/[^a-z]/g, '')
+    .replace(/cch/g, 'tch')
+    .replace(/m(?=[bpm])/g, 'n')
+    .replace(/nn/g, 'n')
+    .replace(/oh(?![aiueoy])/g, 'o')
+    .replace(/o[ou]/g, 'o')
+    .replace(/uu/g, 'u');
+}
+
+/**
+ * 漢字を含むかどうか（含まない場合はかな・ローマ字として照合する）
+ */
+function hasKanji(text: string): boolean {
+  return /[㐀-鿿々〆]/.test(text);
+}
+
+function createPlace(prefecture: string, name: string, reading: string): Place {
+  const kind = name.slice(-1);
+  const stem = prefecture === name && kind === '道' ? name : name.slice(0, -1);
+  return { prefecture, name, kind, full: kanjiKey(name), stem: kanjiKey(stem), romaji: romajiKey(reading) };
+}
+
+let prefecturePlaces: Place[] | undefined;
+let municipalityPlaces: Place[] | undefined;
+
+/**
+ * 都道府県の照合対象（初回の利用時に作成する）
+ */
+function getPrefecturePlaces(): Place[] {
+  prefecturePlaces ??= PREFECTURES.map(pref => createPlace(pref, pref, PREFECTURE_READINGS[pref]));
+  return prefecturePlaces;
+}
+
+/**
+ * 市区町村の照合対象（初回の利用時に作成する）
+ */
+function getMunicipalityPlaces(): Place[] {
+  municipalityPlaces ??= PREFECTURES.flatMap(pref =>
+    MUNICIPALITY_DATA[pref].trim().split(/\s+/).map(entry => {
+      const [name, reading] = entry.split(':');
+      return createPlace(pref, name, reading);
+    }));
+  return municipalityPlaces;
+}
+
+/**
+ * 入力を照合し、最も確からしい候補を返す
+ * 種別まで一致したもの（漢字の正式名称、接尾辞付きのローマ字）を優先し、
+ * 種別を省略した入力では市・区を町・村より優先する（「横浜」は横浜町より横浜市）
+ */
+function findPlaces(input: string, places: Place[], suffixes: RomajiSuffix[]): Place[] {
+  const exact: Place[] = [];
+  const loose: Place[] = [];
+  const text = normalizeText(input);
+  const kindChar = text.slice(-1);
+
+  if (hasKanji(text.slice(0, -1)) || (hasKanji(text) && !suffixes.some(entry => entry.kinds.includes(kindChar)))) {
+    const key = kanjiKey(text);
+    for (const place of places) {
+      if (place.full === key) {
+        exact.push(place);
+      } else if (place.stem === key) {
+        loose.push(place);
+      }
+    }
+  } else {
+    // かな・ローマ字（「よこはま市」のように種別だけ漢字の場合を含む）
+    const variants: { key: string; kinds?: string }[] = [];
+    if (hasKanji(text)) {
+      variants.push({ key: romajiKey(text.slice(0, -1)), kinds: kindChar });
+    } else {
+      const key = romajiKey(text);
+      variants.push({ key });
+      for (const { suffix, kinds } of suffixes) {
+        // 接尾辞だけの入力（「shi」など）は除去しない
+        if (key.length > suffix.length && key.endsWith(suffix)) {
+          variants.push({ key: key.slice(0, -suffix.length), kinds });
+        }
+      }
+    }
+    for (const place of places) {
+      for (const variant of variants) {
+        if (place.romaji !== variant.key) {
+          continue;
+        }
+        if (variant.kinds === undefined) {
+          loose.push(place);
+        } else if (variant.kinds.includes(place.kind)) {
+          exact.push(place);
+        }
+      }
+    }
+  }
+
+  if (exact.length > 0) {
+    return [...new Set(exact)];
+  }
+  const unique = [...new Set(loose)];
+  const preferred = unique.filter(place => '市区都道府県'.includes(place.kind));
+  return preferred.length > 0 ? preferred : unique;
+}
+
+/**
+ * 2つの文字列の編集距離
+ */
+function levenshtein(a: string, b: string): number {
+  const source = [...a];
+  const target = [...b];
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * 入力に似た名前の候補を返す（編集距離が近いもの、入力で始まるもの）
+ */
+function suggestPlaces(input: string, places: Place[]): Place[] {
+  const text = normalizeText(input);
+  const kanji = hasKanji(text);
+  const key = kanji ? kanjiKey(text) : romajiKey(text);
+  const threshold = kanji ? 1 : Math.max(1, Math.floor(key.length / 4));
+  const scored: { place: Place; distance: number }[] = [];
+
+  for (const place of places) {
+    const forms = kanji ? [place.full, place.stem] : [place.romaji];
+    const distance = Math.min(...forms.map(form =>
+      [...key].length >= 2 && form.startsWith(key) ? 0.5 : levenshtein(key, form)));
+    if (distance <= threshold) {
+      scored.push({ place, distance });
+    }
+  }
+
+  return scored
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(entry => entry.place);
+}
+
+function toAreaName(place: Place): AreaName {
+  return place.prefecture === place.name ? { prefecture: place.prefecture } : { prefecture: place.prefecture, city: place.name };
+}
+
+/**
+ * 都道府県名を正式名称に正規化する
+ * 「東京」「東京都」「とうきょう」「Tokyo」「tokyo-to」などの表記に対応する
+ */
+export function matchPrefecture(input: string): AreaMatch {
+  const places = getPrefecturePlaces();
+  const found = findPlaces(input, places, PREFECTURE_SUFFIXES);
+
+  if (found.length === 1) {
+    return { status: 'resolved', area: toAreaName(found[0]) };
+  }
+  if (found.length > 1) {
+    return { status: 'ambiguous', candidates: found.map(toAreaName) };
+  }
+  return { status: 'unknown', suggestions: suggestPlaces(input, places).map(toAreaName) };
+}
+
+/**
+ * 市区町村名を正式名称に正規化する
+ * 「横浜」「横浜市」「よこはま」「Yokohama-shi」「新宿」などの表記に対応し、
+ * 先頭の都道府県名（「神奈川県横浜市」）や郡名（「印旛郡酒々井町」）は取り除く。
+ * 政令指定都市の区（「横浜市中区」）は市の部分を確認したうえで、入力どおりの区名を返す
+ *
+ * @param input 市区町村名
+ * @param prefecture 都道府県の正式名称（省略時は全国から探す）
+ */
+export function matchCity(input: string, prefecture?: string): AreaMatch {
+  let text = normalizeText(input);
+  let restrict = prefecture;
+
+  const prefix = PREFECTURES.find(pref => text.startsWith(pref) && text.length > pref.length);
+  if (prefix) {
+    text = text.slice(prefix.length);
+    restrict ??= prefix;
+  }
+  const district = text.match(/^.+郡(.+[町村])$/);
+  if (district) {
+    text = district[1];
+  }
+
+  const all = getMunicipalityPlaces();
+  const places = restrict ? all.filter(place => place.prefecture === restrict) : all;
+
+  // 政令指定都市の区
+  const key = kanjiKey(text);
+  const wards = places.filter(place =>
+    place.kind === '市' && key.startsWith(place.full) && key.length > place.full.length + 1 && key.endsWith('区'));
+  if (wards.length === 1) {
+    return { status: 'resolved', area: { prefecture: wards[0].prefecture, city: wards[0].name + text.slice(wards[0].name.length) } };
+  }
+
+  const found = findPlaces(text, places, MUNICIPALITY_SUFFIXES);
+  if (found.length === 1) {
+    return { status: 'resolved', area: toAreaName(found[0]) };
+  }
+  if (found.length > 1) {
+    return { status: 'ambiguous', candidates: found.map(toAreaName) };
+  }
+
+  // 指定した都道府県にない場合は、他の都道府県の同じ名前を先に候補に挙げる
+  const elsewhere = restrict ? findPlaces(text, all, MUNICIPALITY_SUFFIXES) : [];
+  const suggestions = [...new Set([...elsewhere, ...suggestPlaces(text, places)])].slice(0, MAX_SUGGESTIONS);
+  return { status: 'unknown', suggestions: suggestions.map(toAreaName) };
+}
+
+/**
+ * 市区町村の一覧（政令指定都市の区を除く）
+ * @param prefecture 都道府県の正式名称（省略時は全国）
+ */
+export function listMunicipalities(prefecture?: string): AreaName[] {
+  return getMunicipalityPlaces()
+    .filter(place => !prefecture || place.prefecture === prefecture)
+    .map(toAreaName);
+}
@@ -0,0 +1,61 @@
+/**
+ * 位置情報ユーティリティ
+ */
+
+/**
+ * 緯度経度
+ */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// 地球の平均半径（km）
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Calil APIの geocode（"経度,緯度"）を緯度経度に変換する
+ * @param geocode "経度,緯度" 形式の文字列
+ * @returns 緯度経度（解釈できない場合はnull）
+ */
+export function parseGeocode(geocode: string | null | undefined): Coordinates | null {
+  if (!geocode) {
+    return null;
+  }
+  
+  const [lng, lat] = geocode.split(',').map(value => Number(value.trim()));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || !isValidCoordinates({ latitude: lat, longitude: lng })) {
+    return null;
+  }
+  
+  return { latitude: lat, longitude: lng };
+}
+
+/**
+ * 緯度経度をCalil APIの geocode 形式に変換する
+ */
+export function toGeocode(coordinates: Coordinates): string {
+  return `${coordinates.longitude},${coordinates.latitude}`;
+}
+
+/**
+ * 緯度経度が有効な範囲かを判定する
+ */
+export function isValidCoordinates(coordinates: Coordinates): boolean {
+  return Math.abs(coordinates.latitude) <= 90 && Math.abs(coordinates.longitude) <= 180;
+}
+
+/**
+ * 2点間の大圏距離をハーバーサイン公式で求める
+ * @returns 距離（km）
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,259 @@
+/**
+ * ISBNの正規化・検証・変換ユーティリティ
+ */
+
+/**
+ * ISBNが不正と判定された理由
+ */
+export type IsbnRejectionReason =
+  | 'INVALID_CHARACTERS'
+  | 'INVALID_LENGTH'
+  | 'INVALID_PREFIX'
+  | 'INVALID_CHECKSUM';
+
+/**
+ * 不正なISBN候補を表すエラー
+ */
+export class IsbnValidationError extends Error {
+  readonly candidate: string;
+  readonly reason: IsbnRejectionReason;
+
+  constructor(candidate: string, reason: IsbnRejectionReason, message: string) {
+    super(message);
+    this.name = 'IsbnValidationError';
+    this.candidate = candidate;
+    this.reason = reason;
+  }
+
+  /**
+   * レスポンスに含めるための構造化表現
+   */
+  toJSON(): IsbnRejection {
+    return {
+      candidate: this.candidate,
+      reason: this.reason,
+      message: this.message
+    };
+  }
+}
+
+/**
+ * 呼び出し元に返す不正ISBNの情報
+ */
+export interface IsbnRejection {
+  candidate: string;
+  reason: IsbnRejectionReason;
+  message: string;
+}
+
+/**
+ * 検証済みのISBN
+ */
+export interface ParsedIsbn {
+  /** 入力された文字列 */
+  input: string;
+  /** 正規化されたISBN-13 */
+  isbn13: string;
+  /** 対応するISBN-10（978始まりの場合のみ） */
+  isbn10: string | null;
+}
+
+/**
+ * ISBN候補の抽出・検証結果
+ */
+export interface IsbnExtractionResult {
+  valid: ParsedIsbn[];
+  rejected: IsbnRejection[];
+}
+
+// ハイフンとして扱う文字（全角ハイフン、長音記号、各種ダッシュ）
+const HYPHEN_LIKE = /[‐-―−－ー]/g;
+
+/**
+ * 全角英数字・全角ハイフン・全角スペースを半角に変換する
+ * 
+ * @param text 入力文字列
+ * @returns 半角に変換された文字列
+ */
+export function toHalfWidth(text: string): string {
+  return text
+    .replace(/[０-９Ａ-Ｚａ-ｚ：]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+    .replace(HYPHEN_LIKE, '-')
+    .replace(/　/g, ' ');
+}
+
+/**
+ * ISBN文字列からハイフン・空白を取り除き、末尾のxを大文字にする
+ * 
+ * @param isbn ISBN文字列
+ * @returns 区切り文字を除いたISBN
+ */
+export function normalizeIsbn(isbn: string): string {
+  return toHalfWidth(isbn)
+    .replace(/^ISBN(?:-1[03])?:?/i, '')
+    .replace(/[-\s]/g, '')
+    .toUpperCase();
+}
+
+/**
+ * ISBN-10のチェックディジットを計算する
+ * 
+ * @param body チェックディジットを除く先頭9桁
+ */
+function computeIsbn10CheckDigit(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += Number(body[i]) * (10 - i);
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * ISBN-13のチェックディジットを計算する
+ * 
+ * @param body チェックディジットを除く先頭12桁
+ */
+function computeIsbn13CheckDigit(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(body[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * ISBN-10として正しいかを判定する
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  const normalized = normalizeIsbn(isbn);
+  return /^[0-9]{9}[0-9X]$/.test(normalized) && computeIsbn10CheckDigit(normalized) === normalized[9];
+}
+
+/**
+ * ISBN-13として正しいかを判定する
+ */
+export function isValidIsbn13(isbn: string): boolean {
+  const normalized = normalizeIsbn(isbn);
+  return /^97[89][0-9]{10}$/.test(normalized) && computeIsbn13CheckDigit(normalized) === normalized[12];
+}
+
+/**
+ * ISBN-10をISBN-13に変換する
+ * 
+ * @param isbn10 ISBN-10
+ * @returns ISBN-13
+ */
+export function isbn10To13(isbn10: string): string {
+  const normalized = normalizeIsbn(isbn10);
+  const body = `978${normalized.slice(0, 9)}`;
+  return body + computeIsbn13CheckDigit(body);
+}
+
+/**
+ * ISBN-13をISBN-10に変換する
+ * 979始まりのISBN-13にはISBN-10が存在しないためnullを返す
+ * 
+ * @param isbn13 ISBN-13
+ * @returns ISBN-10（変換できない場合はnull）
+ */
+export function isbn13To10(isbn13: string): string | null {
+  const normalized = normalizeIsbn(isbn13);
+  if (!normalized.startsWith('978')) {
+    return null;
+  }
+  const body = normalized.slice(3, 12);
+  return body + computeIsbn10CheckDigit(body);
+}
+
+/**
+ * ISBN文字列を検証し、ISBN-13に正規化する
+ * 
+ * @param input ISBN文字列（ハイフン・全角数字を含んでもよい）
+ * @returns 検証済みのISBN
+ * @throws IsbnValidationError 不正なISBNの場合
+ */
+export function parseIsbn(input: string): ParsedIsbn {
+  const normalized = normalizeIsbn(input);
+
+  if (!/^[0-9]*X?$/.test(normalized)) {
+    throw new IsbnValidationError(input, 'INVALID_CHARACTERS', `"${input}" contains characters that are not allowed in an ISBN`);
+  }
+
+  if (normalized.length === 10) {
+    if (!isValidIsbn10(normalized)) {
+      throw new IsbnValidationError(input, 'INVALID_CHECKSUM', `"${input}" has an invalid ISBN-10 check digit (expected ${computeIsbn10CheckDigit(normalized)})`);
+    }
+    return { input, isbn13: isbn10To13(normalized), isbn10: normalized };
+  }
+
+  if (normalized.length === 13) {
+    if (normalized.includes('X')) {
+      throw new IsbnValidationError(input, 'INVALID_CHARACTERS', `"${input}" contains "X", which is only allowed as the ISBN-10 check digit`);
+    }
+    if (!/^97[89]/.test(normalized)) {
+      throw new IsbnValidationError(input, 'INVALID_PREFIX', `"${input}" does not start with the ISBN-13 prefix 978 or 979`);
+    }
+    if (!isValidIsbn13(normalized)) {
+      throw new IsbnValidationError(input, 'INVALID_CHECKSUM', `"${input}" has an invalid ISBN-13 check digit (expected ${computeIsbn13CheckDigit(normalized)})`);
+    }
+    return { input, isbn13: normalized, isbn10: isbn13To10(normalized) };
+  }
+
+  throw new IsbnValidationError(input, 'INVALID_LENGTH', `"${input}" has ${normalized.length} digits, but an ISBN must have 10 or 13`);
+}
+
+/**
+ * 複数のISBN文字列を検証し、有効なものと不正なものに振り分ける
+ * 有効なISBNはISBN-13で重複を除く
+ * 
+ * @param inputs ISBN文字列の配列
+ * @returns 検証結果
+ */
+export function validateIsbns(inputs: string[]): IsbnExtractionResult {
+  const valid: ParsedIsbn[] = [];
+  const rejected: IsbnRejection[] = [];
+  const seen = new Set<string>();
+
+  for (const input of inputs) {
+    try {
+      const parsed = parseIsbn(input);
+      if (!seen.has(parsed.isbn13)) {
+        seen.add(parsed.isbn13);
+        valid.push(parsed);
+      }
+    } catch (error) {
+      if (error instanceof IsbnValidationError) {
+        rejected.push(error.toJSON());
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return { valid, rejected };
+}
+
+/**
+ * 自由文からISBN候補を抽出して検証する
+ * 前後が数字でない10桁または13桁の数字列（ハイフン・空白区切り可）、
+ * もしくは「ISBN」の接頭辞が付いた文字列を候補とする
+ * 
+ * @param text 検索クエリなどの自由文
+ * @returns 検証結果
+ */
+export function extractIsbns(text: string): IsbnExtractionResult {
+  const halfWidth = toHalfWidth(text);
+  const candidateRegex = /(ISBN(?:-1[03])?:?\s*)?(?<![0-9])([0-9](?:[-\s]?[0-9]){8,12}(?:[-\s]?[0-9X])?)(?![0-9])/gi;
+
+  const candidates: string[] = [];
+  for (const match of halfWidth.matchAll(candidateRegex)) {
+    const digits = match[2].replace(/[-\s]/g, '');
+    // ISBN接頭辞のない数字列は桁数が合うものだけを候補とする（電話番号や日付の誤検出を避ける）
+    if (match[1] || digits.length === 10 || digits.length === 13) {
+      candidates.push(match[2].trim());
+    }
+  }
+
+  return validateIsbns(candidates);
+}
@@ -0,0 +1,211 @@
+/**
+ * 図書館一覧の絞り込み・ページングユーティリティ
+ */
+
+/**
+ * Calil APIの図書館種別
+ */
+export const LIBRARY_CATEGORIES = ['SMALL', 'MEDIUM', 'LARGE', 'UNIV', 'SPECIAL', 'BM'] as const;
+
+export type LibraryCategory = typeof LIBRARY_CATEGORIES[number];
+
+/**
+ * 絞り込み条件
+ */
+export interface LibraryFilter {
+  /** 図書館種別（いずれかに一致） */
+  categories?: LibraryCategory[];
+  /** 図書館システムID（いずれかに一致） */
+  systemids?: string[];
+  /** 図書館名（正式名称・略称）の部分一致 */
+  name?: string;
+}
+
+/**
+ * ページング条件
+ */
+export interface PageOptions {
+  offset: number;
+  limit: number;
+}
+
+/**
+ * ページングされた結果
+ */
+export interface Page<T> {
+  total: number;
+  offset: number;
+  limit: number;
+  items: T[];
+  /** 次のページのカーソル（最後のページの場合はnull） */
+  nextCursor: string | null;
+}
+
+/**
+ * 絞り込みに必要な図書館の項目
+ */
+interface FilterableLibrary {
+  formal: string;
+  short: string;
+  systemid: string;
+  category: string;
+}
+
+/**
+ * 図書館名の比較用に正規化する（全角半角・大文字小文字・空白の違いを無視）
+ */
+function normalizeName(name: string): string {
+  return name.normalize('NFKC').toLowerCase().replace(/\s/g, '');
+}
+
+/**
+ * 図書館種別として正しいかを判定する
+ */
+export function isLibraryCategory(value: string): value is LibraryCategory {
+  return (LIBRARY_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * 条件に一致する図書館に絞り込む
+ * @param libraries 図書館の配列
+ * @param filter 絞り込み条件
+ */
+export function filterLibraries<T extends FilterableLibrary>(libraries: T[], filter: LibraryFilter): T[] {
+  const name = filter.name ? normalizeName(filter.name) : '';
+  
+  return libraries.filter(library =>
+    (!filter.categories || filter.categories.length === 0 || filter.categories.includes(library.category as LibraryCategory))
+    && (!filter.systemids || filter.systemids.length === 0 || filter.systemids.includes(library.systemid))
+    && (!name || normalizeName(library.formal).includes(name) || normalizeName(library.short).includes(name))
+  );
+}
+
+/**
+ * 図書館を特定する条件
+ * libid・ISIL・図書館名のいずれか、または systemid と libkey の組み合わせで指定する
+ */
+export interface LibraryLookup {
+  libid?: string;
+  /** 図書館システム内の図書館キー（systemid と組み合わせる） */
+  libkey?: string;
+  systemid?: string;
+  /** ISIL（図書館及び関連組織のための国際標準識別子、例: JP-1000720） */
+  isil?: string;
+  /** 図書館名（表記ゆれ・一部の省略を許容する） */
+  name?: string;
+}
+
+/**
+ * 図書館の特定に必要な項目
+ */
+interface LookupLibrary extends FilterableLibrary {
+  libid: string;
+  libkey: string;
+  isil: string;
+  city: string;
+}
+
+/**
+ * 図書館名の類似度の下限（文字の2-gramのダイス係数）
+ */
+const NAME_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * 文字の2-gramのダイス係数で2つの名前の類似度を求める（0〜1）
+ */
+function nameSimilarity(a: string, b: string): number {
+  const bigrams = (value: string) => {
+    const chars = [...value];
+    return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+  };
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) {
+    return a === b ? 1 : 0;
+  }
+
+  const remaining = [...right];
+  let common = 0;
+  for (const bigram of left) {
+    const index = remaining.indexOf(bigram);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      common++;
+    }
+  }
+  return 2 * common / (left.length + right.length);
+}
+
+/**
+ * 図書館名の一致度（完全一致 3、部分一致 2、類似 1 未満、一致しない場合は 0）
+ * 正式名称・略称のほか、「八千代中央図書館」のような市区町村名と略称の組み合わせとも比べる
+ */
+function nameScore(library: LookupLibrary, name: string): number {
+  const short = normalizeName(library.short);
+  const city = normalizeName(library.city);
+  const names = [
+    normalizeName(library.formal),
+    short,
+    ...(short && city ? [city + short, city.replace(/[市区町村]$/, '') + short] : []),
+  ].filter(Boolean);
+  if (names.includes(name)) {
+    return 3;
+  }
+  if (names.some(candidate => candidate.includes(name) || name.includes(candidate))) {
+    return 2;
+  }
+  const similarity = Math.max(0, ...names.map(candidate => nameSimilarity(candidate, name)));
+  return similarity >= NAME_SIMILARITY_THRESHOLD ? similarity : 0;
+}
+
+/**
+ * 条件に一致する図書館を探す
+ * 図書館ID・図書館キー・ISILは完全一致（ISILは大文字小文字・ハイフンの有無を区別しない）、
+ * 図書館名は一致度が最も高い図書館をすべて返す
+ *
+ * @param libraries 図書館の配列
+ * @param lookup 図書館を特定する条件
+ * @returns 一致した図書館（図書館名で探した場合は一致度の高い順の候補も返す）
+ */
+export function findLibraries<T extends LookupLibrary>(libraries: T[], lookup: LibraryLookup): { matches: T[]; similar: T[] } {
+  const isil = (value: string) => value.normalize('NFKC').toUpperCase().replace(/[\s\-]/g, '');
+  const exact = libraries.filter(library =>
+    (!lookup.libid || library.libid === lookup.libid)
+    && (!lookup.systemid || library.systemid === lookup.systemid)
+    && (!lookup.libkey || library.libkey === lookup.libkey)
+    && (!lookup.isil || (library.isil !== '' && isil(library.isil) === isil(lookup.isil)))
+  );
+  if (!lookup.name) {
+    return { matches: exact, similar: [] };
+  }
+
+  const name = normalizeName(lookup.name);
+  const scored = exact
+    .map(library => ({ library, score: nameScore(library, name) }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+  const best = scored[0]?.score;
+
+  return {
+    matches: scored.filter(entry => entry.score === best).map(entry => entry.library),
+    similar: scored.filter(entry => entry.score !== best).map(entry => entry.library),
+  };
+}
+
+/**
+ * 配列をページングする
+ * カーソルは次のページの先頭位置を表す文字列
+ * @param items 対象の配列
+ * @param options ページング条件
+ */
+export function paginate<T>(items: T[], options: PageOptions): Page<T> {
+  const end = options.offset + options.limit;
+  
+  return {
+    total: items.length,
+    offset: options.offset,
+    limit: options.limit,
+    items: items.slice(options.offset, end),
+    nextCursor: end < items.length ? String(end) : null
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * ログレベルの管理
+ * 各モジュールのロガーは出力前にここでレベルを確認する
+ */
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+let currentLevel: LogLevel = 'info';
+
+/**
+ * ログレベルとして正しいかを判定する
+ */
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * 出力するログレベルを設定する
+ */
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+/**
+ * 指定したレベルのログを出力するかを判定する
+ */
+export function isLogLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(currentLevel);
+}
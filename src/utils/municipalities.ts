@@ -0,0 +1,442 @@
+/**
+ * 都道府県ごとの市区町村の一覧（全国地方公共団体コード順）
+ *
+ * 「名称:読み」を空白区切りで並べる。読みは末尾の市・区・町・村を除いた部分のひらがな。
+ * 東京都の特別区を含み、政令指定都市の区は含まない。
+ */
+export const MUNICIPALITY_DATA: Readonly<Record<string, string>> = {
+  '北海道': `
+    札幌市:さっぽろ 函館市:はこだて 小樽市:おたる 旭川市:あさひかわ 室蘭市:むろらん 釧路市:くしろ
+    帯広市:おびひろ 北見市:きたみ 夕張市:ゆうばり 岩見沢市:いわみざわ 網走市:あばしり 留萌市:るもい
+    苫小牧市:とまこまい 稚内市:わっかない 美唄市:びばい 芦別市:あしべつ 江別市:えべつ 赤平市:あかびら
+    紋別市:もんべつ 士別市:しべつ 名寄市:なよろ 三笠市:みかさ 根室市:ねむろ 千歳市:ちとせ
+    滝川市:たきかわ 砂川市:すながわ 歌志内市:うたしない 深川市:ふかがわ 富良野市:ふらの 登別市:のぼりべつ
+    恵庭市:えにわ 伊達市:だて 北広島市:きたひろしま 石狩市:いしかり 北斗市:ほくと
+    当別町:とうべつ 新篠津村:しんしのつ
+    松前町:まつまえ 福島町:ふくしま 知内町:しりうち 木古内町:きこない 七飯町:ななえ 鹿部町:しかべ
+    森町:もり 八雲町:やくも 長万部町:おしゃまんべ
+    江差町:えさし 上ノ国町:かみのくに 厚沢部町:あっさぶ 乙部町:おとべ 奥尻町:おくしり 今金町:いまかね
+    せたな町:せたな
+    島牧村:しままき 寿都町:すっつ 黒松内町:くろまつない 蘭越町:らんこし ニセコ町:にせこ 真狩村:まっかり
+    留寿都村:るすつ 喜茂別町:きもべつ 京極町:きょうごく 倶知安町:くっちゃん 共和町:きょうわ 岩内町:いわない
+    泊村:とまり 神恵内村:かもえない 積丹町:しゃこたん 古平町:ふるびら 仁木町:にき 余市町:よいち
+    赤井川村:あかいがわ
+    南幌町:なんぽろ 奈井江町:ないえ 上砂川町:かみすながわ 由仁町:ゆに 長沼町:ながぬま 栗山町:くりやま
+    月形町:つきがた 浦臼町:うらうす 新十津川町:しんとつかわ 妹背牛町:もせうし 秩父別町:ちっぷべつ 雨竜町:うりゅう
+    北竜町:ほくりゅう 沼田町:ぬまた
+    鷹栖町:たかす 東神楽町:ひがしかぐら 当麻町:とうま 比布町:ぴっぷ 愛別町:あいべつ 上川町:かみかわ
+    東川町:ひがしかわ 美瑛町:びえい 上富良野町:かみふらの 中富良野町:なかふらの 南富良野町:みなみふらの 占冠村:しむかっぷ
+    和寒町:わっさむ 剣淵町:けんぶち 下川町:しもかわ 美深町:びふか 音威子府村:おといねっぷ 中川町:なかがわ
+    幌加内町:ほろかない
+    増毛町:ましけ 小平町:おびら 苫前町:とままえ 羽幌町:はぼろ 初山別村:しょさんべつ 遠別町:えんべつ
+    天塩町:てしお
+    猿払村:さるふつ 浜頓別町:はまとんべつ 中頓別町:なかとんべつ 枝幸町:えさし 豊富町:とよとみ 礼文町:れぶん
+    利尻町:りしり 利尻富士町:りしりふじ 幌延町:ほろのべ
+    美幌町:びほろ 津別町:つべつ 斜里町:しゃり 清里町:きよさと 小清水町:こしみず 訓子府町:くんねっぷ
+    置戸町:おけと 佐呂間町:さろま 遠軽町:えんがる 湧別町:ゆうべつ 滝上町:たきのうえ 興部町:おこっぺ
+    西興部村:にしおこっぺ 雄武町:おうむ 大空町:おおぞら
+    豊浦町:とようら 壮瞥町:そうべつ 白老町:しらおい 厚真町:あつま 洞爺湖町:とうやこ 安平町:あびら
+    むかわ町:むかわ
+    日高町:ひだか 平取町:びらとり 新冠町:にいかっぷ 浦河町:うらかわ 様似町:さまに えりも町:えりも
+    新ひだか町:しんひだか
+    音更町:おとふけ 士幌町:しほろ 上士幌町:かみしほろ 鹿追町:しかおい 新得町:しんとく 清水町:しみず
+    芽室町:めむろ 中札内村:なかさつない 更別村:さらべつ 大樹町:たいき 広尾町:ひろお 幕別町:まくべつ
+    池田町:いけだ 豊頃町:とよころ 本別町:ほんべつ 足寄町:あしょろ 陸別町:りくべつ 浦幌町:うらほろ
+    釧路町:くしろ 厚岸町:あっけし 浜中町:はまなか 標茶町:しべちゃ 弟子屈町:てしかが 鶴居村:つるい
+    白糠町:しらぬか
+    別海町:べつかい 中標津町:なかしべつ 標津町:しべつ 羅臼町:らうす
+  `,
+  '青森県': `
+    青森市:あおもり 弘前市:ひろさき 八戸市:はちのへ 黒石市:くろいし 五所川原市:ごしょがわら 十和田市:とわだ
+    三沢市:みさわ むつ市:むつ つがる市:つがる 平川市:ひらかわ
+    平内町:ひらない 今別町:いまべつ 蓬田村:よもぎた 外ヶ浜町:そとがはま 鰺ヶ沢町:あじがさわ 深浦町:ふかうら
+    西目屋村:にしめや 藤崎町:ふじさき 大鰐町:おおわに 田舎館村:いなかだて 板柳町:いたやなぎ 鶴田町:つるた
+    中泊町:なかどまり 野辺地町:のへじ 七戸町:しちのへ 六戸町:ろくのへ 横浜町:よこはま 東北町:とうほく
+    六ヶ所村:ろっかしょ おいらせ町:おいらせ 大間町:おおま 東通村:ひがしどおり 風間浦村:かざまうら 佐井村:さい
+    三戸町:さんのへ 五戸町:ごのへ 田子町:たっこ 南部町:なんぶ 階上町:はしかみ 新郷村:しんごう
+  `,
+  '岩手県': `
+    盛岡市:もりおか 宮古市:みやこ 大船渡市:おおふなと 花巻市:はなまき 北上市:きたかみ 久慈市:くじ
+    遠野市:とおの 一関市:いちのせき 陸前高田市:りくぜんたかた 釜石市:かまいし 二戸市:にのへ 八幡平市:はちまんたい
+    奥州市:おうしゅう 滝沢市:たきざわ
+    雫石町:しずくいし 葛巻町:くずまき 岩手町:いわて 紫波町:しわ 矢巾町:やはば 西和賀町:にしわが
+    金ケ崎町:かねがさき 平泉町:ひらいずみ 住田町:すみた 大槌町:おおつち 山田町:やまだ 岩泉町:いわいずみ
+    田野畑村:たのはた 普代村:ふだい 軽米町:かるまい 野田村:のだ 九戸村:くのへ 洋野町:ひろの
+    一戸町:いちのへ
+  `,
+  '宮城県': `
+    仙台市:せんだい 石巻市:いしのまき 塩竈市:しおがま 気仙沼市:けせんぬま 白石市:しろいし 名取市:なとり
+    角田市:かくだ 多賀城市:たがじょう 岩沼市:いわぬま 登米市:とめ 栗原市:くりはら 東松島市:ひがしまつしま
+    大崎市:おおさき 富谷市:とみや
+    蔵王町:ざおう 七ヶ宿町:しちかしゅく 大河原町:おおがわら 村田町:むらた 柴田町:しばた 川崎町:かわさき
+    丸森町:まるもり 亘理町:わたり 山元町:やまもと 松島町:まつしま 七ヶ浜町:しちがはま 利府町:りふ
+    大和町:たいわ 大郷町:おおさと 大衡村:おおひら 色麻町:しかま 加美町:かみ 涌谷町:わくや
+    美里町:みさと 女川町:おながわ 南三陸町:みなみさんりく
+  `,
+  '秋田県': `
+    秋田市:あきた 能代市:のしろ 横手市:よこて 大館市:おおだて 男鹿市:おが 湯沢市:ゆざわ
+    鹿角市:かづの 由利本荘市:ゆりほんじょう 潟上市:かたがみ 大仙市:だいせん 北秋田市:きたあきた にかほ市:にかほ
+    仙北市:せんぼく
+    小坂町:こさか 上小阿仁村:かみこあに 藤里町:ふじさと 三種町:みたね 八峰町:はっぽう 五城目町:ごじょうめ
+    八郎潟町:はちろうがた 井川町:いかわ 大潟村:おおがた 美郷町:みさと 羽後町:うご 東成瀬村:ひがしなるせ
+  `,
+  '山形県': `
+    山形市:やまがた 米沢市:よねざわ 鶴岡市:つるおか 酒田市:さかた 新庄市:しんじょう 寒河江市:さがえ
+    上山市:かみのやま 村山市:むらやま 長井市:ながい 天童市:てんどう 東根市:ひがしね 尾花沢市:おばなざわ
+    南陽市:なんよう
+    山辺町:やまのべ 中山町:なかやま 河北町:かほく 西川町:にしかわ 朝日町:あさひ 大江町:おおえ
+    大石田町:おおいしだ 金山町:かねやま 最上町:もがみ 舟形町:ふながた 真室川町:まむろがわ 大蔵村:おおくら
+    鮭川村:さけがわ 戸沢村:とざわ 高畠町:たかはた 川西町:かわにし 小国町:おぐに 白鷹町:しらたか
+    飯豊町:いいで 三川町:みかわ 庄内町:しょうない 遊佐町:ゆざ
+  `,
+  '福島県': `
+    福島市:ふくしま 会津若松市:あいづわかまつ 郡山市:こおりやま いわき市:いわき 白河市:しらかわ 須賀川市:すかがわ
+    喜多方市:きたかた 相馬市:そうま 二本松市:にほんまつ 田村市:たむら 南相馬市:みなみそうま 伊達市:だて
+    本宮市:もとみや
+    桑折町:こおり 国見町:くにみ 川俣町:かわまた 大玉村:おおたま 鏡石町:かがみいし 天栄村:てんえい
+    下郷町:しもごう 檜枝岐村:ひのえまた 只見町:ただみ 南会津町:みなみあいづ 北塩原村:きたしおばら 西会津町:にしあいづ
+    磐梯町:ばんだい 猪苗代町:いなわしろ 会津坂下町:あいづばんげ 湯川村:ゆがわ 柳津町:やないづ 三島町:みしま
+    金山町:かねやま 昭和村:しょうわ 会津美里町:あいづみさと 西郷村:にしごう 泉崎村:いずみざき 中島村:なかじま
+    矢吹町:やぶき 棚倉町:たなぐら 矢祭町:やまつり 塙町:はなわ 鮫川村:さめがわ 石川町:いしかわ
+    玉川村:たまかわ 平田村:ひらた 浅川町:あさかわ 古殿町:ふるどの 三春町:みはる 小野町:おの
+    広野町:ひろの 楢葉町:ならは 富岡町:とみおか 川内村:かわうち 大熊町:おおくま 双葉町:ふたば
+    浪江町:なみえ 葛尾村:かつらお 新地町:しんち 飯舘村:いいたて
+  `,
+  '茨城県': `
+    水戸市:みと 日立市:ひたち 土浦市:つちうら 古河市:こが 石岡市:いしおか 結城市:ゆうき
+    龍ケ崎市:りゅうがさき 下妻市:しもつま 常総市:じょうそう 常陸太田市:ひたちおおた 高萩市:たかはぎ 北茨城市:きたいばらき
+    笠間市:かさま 取手市:とりで 牛久市:うしく つくば市:つくば ひたちなか市:ひたちなか 鹿嶋市:かしま
+    潮来市:いたこ 守谷市:もりや 常陸大宮市:ひたちおおみや 那珂市:なか 筑西市:ちくせい 坂東市:ばんどう
+    稲敷市:いなしき かすみがうら市:かすみがうら 桜川市:さくらがわ 神栖市:かみす 行方市:なめがた 鉾田市:ほこた
+    つくばみらい市:つくばみらい 小美玉市:おみたま
+    茨城町:いばらき 大洗町:おおあらい 城里町:しろさと 東海村:とうかい 大子町:だいご 美浦村:みほ
+    阿見町:あみ 河内町:かわち 八千代町:やちよ 五霞町:ごか 境町:さかい 利根町:とね
+  `,
+  '栃木県': `
+    宇都宮市:うつのみや 足利市:あしかが 栃木市:とちぎ 佐野市:さの 鹿沼市:かぬま 日光市:にっこう
+    小山市:おやま 真岡市:もおか 大田原市:おおたわら 矢板市:やいた 那須塩原市:なすしおばら さくら市:さくら
+    那須烏山市:なすからすやま 下野市:しもつけ
+    上三川町:かみのかわ 益子町:ましこ 茂木町:もてぎ 市貝町:いちかい 芳賀町:はが 壬生町:みぶ
+    野木町:のぎ 塩谷町:しおや 高根沢町:たかねざわ 那須町:なす 那珂川町:なかがわ
+  `,
+  '群馬県': `
+    前橋市:まえばし 高崎市:たかさき 桐生市:きりゅう 伊勢崎市:いせさき 太田市:おおた 沼田市:ぬまた
+    館林市:たてばやし 渋川市:しぶかわ 藤岡市:ふじおか 富岡市:とみおか 安中市:あんなか みどり市:みどり
+    榛東村:しんとう 吉岡町:よしおか 上野村:うえの 神流町:かんな 下仁田町:しもにた 南牧村:なんもく
+    甘楽町:かんら 中之条町:なかのじょう 長野原町:ながのはら 嬬恋村:つまごい 草津町:くさつ 高山村:たかやま
+    東吾妻町:ひがしあがつま 片品村:かたしな 川場村:かわば 昭和村:しょうわ みなかみ町:みなかみ 玉村町:たまむら
+    板倉町:いたくら 明和町:めいわ 千代田町:ちよだ 大泉町:おおいずみ 邑楽町:おうら
+  `,
+  '埼玉県': `
+    さいたま市:さいたま 川越市:かわごえ 熊谷市:くまがや 川口市:かわぐち 行田市:ぎょうだ 秩父市:ちちぶ
+    所沢市:ところざわ 飯能市:はんのう 加須市:かぞ 本庄市:ほんじょう 東松山市:ひがしまつやま 春日部市:かすかべ
+    狭山市:さやま 羽生市:はにゅう 鴻巣市:こうのす 深谷市:ふかや 上尾市:あげお 草加市:そうか
+    越谷市:こしがや 蕨市:わらび 戸田市:とだ 入間市:いるま 朝霞市:あさか 志木市:しき
+    和光市:わこう 新座市:にいざ 桶川市:おけがわ 久喜市:くき 北本市:きたもと 八潮市:やしお
+    富士見市:ふじみ 三郷市:みさと 蓮田市:はすだ 坂戸市:さかど 幸手市:さって 鶴ヶ島市:つるがしま
+    日高市:ひだか 吉川市:よしかわ ふじみ野市:ふじみの 白岡市:しらおか
+    伊奈町:いな 三芳町:みよし 毛呂山町:もろやま 越生町:おごせ 滑川町:なめがわ 嵐山町:らんざん
+    小川町:おがわ 川島町:かわじま 吉見町:よしみ 鳩山町:はとやま ときがわ町:ときがわ 横瀬町:よこぜ
+    皆野町:みなの 長瀞町:ながとろ 小鹿野町:おがの 東秩父村:ひがしちちぶ 美里町:みさと 神川町:かみかわ
+    上里町:かみさと 寄居町:よりい 宮代町:みやしろ 杉戸町:すぎと 松伏町:まつぶし
+  `,
+  '千葉県': `
+    千葉市:ちば 銚子市:ちょうし 市川市:いちかわ 船橋市:ふなばし 館山市:たてやま 木更津市:きさらづ
+    松戸市:まつど 野田市:のだ 茂原市:もばら 成田市:なりた 佐倉市:さくら 東金市:とうがね
+    旭市:あさひ 習志野市:ならしの 柏市:かしわ 勝浦市:かつうら 市原市:いちはら 流山市:ながれやま
+    八千代市:やちよ 我孫子市:あびこ 鴨川市:かもがわ 鎌ケ谷市:かまがや 君津市:きみつ 富津市:ふっつ
+    浦安市:うらやす 四街道市:よつかいどう 袖ケ浦市:そでがうら 八街市:やちまた 印西市:いんざい 白井市:しろい
+    富里市:とみさと 南房総市:みなみぼうそう 匝瑳市:そうさ 香取市:かとり 山武市:さんむ いすみ市:いすみ
+    大網白里市:おおあみしらさと
+    酒々井町:しすい 栄町:さかえ 神崎町:こうざき 多古町:たこ 東庄町:とうのしょう 九十九里町:くじゅうくり
+    芝山町:しばやま 横芝光町:よこしばひかり 一宮町:いちのみや 睦沢町:むつざわ 長生村:ちょうせい 白子町:しらこ
+    長柄町:ながら 長南町:ちょうなん 大多喜町:おおたき 御宿町:おんじゅく 鋸南町:きょなん
+  `,
+  '東京都': `
+    千代田区:ちよだ 中央区:ちゅうおう 港区:みなと 新宿区:しんじゅく 文京区:ぶんきょう 台東区:たいとう
+    墨田区:すみだ 江東区:こうとう 品川区:しながわ 目黒区:めぐろ 大田区:おおた 世田谷区:せたがや
+    渋谷区:しぶや 中野区:なかの 杉並区:すぎなみ 豊島区:としま 北区:きた 荒川区:あらかわ
+    板橋区:いたばし 練馬区:ねりま 足立区:あだち 葛飾区:かつしか 江戸川区:えどがわ
+    八王子市:はちおうじ 立川市:たちかわ 武蔵野市:むさしの 三鷹市:みたか 青梅市:おうめ 府中市:ふちゅう
+    昭島市:あきしま 調布市:ちょうふ 町田市:まちだ 小金井市:こがねい 小平市:こだいら 日野市:ひの
+    東村山市:ひがしむらやま 国分寺市:こくぶんじ 国立市:くにたち 福生市:ふっさ 狛江市:こまえ 東大和市:ひがしやまと
+    清瀬市:きよせ 東久留米市:ひがしくるめ 武蔵村山市:むさしむらやま 多摩市:たま 稲城市:いなぎ 羽村市:はむら
+    あきる野市:あきるの 西東京市:にしとうきょう
+    瑞穂町:みずほ 日の出町:ひので 檜原村:ひのはら 奥多摩町:おくたま 大島町:おおしま 利島村:としま
+    新島村:にいじま 神津島村:こうづしま 三宅村:みやけ 御蔵島村:みくらじま 八丈町:はちじょう 青ヶ島村:あおがしま
+    小笠原村:おがさわら
+  `,
+  '神奈川県': `
+    横浜市:よこはま 川崎市:かわさき 相模原市:さがみはら 横須賀市:よこすか 平塚市:ひらつか 鎌倉市:かまくら
+    藤沢市:ふじさわ 小田原市:おだわら 茅ヶ崎市:ちがさき 逗子市:ずし 三浦市:みうら 秦野市:はだの
+    厚木市:あつぎ 大和市:やまと 伊勢原市:いせはら 海老名市:えびな 座間市:ざま 南足柄市:みなみあしがら
+    綾瀬市:あやせ
+    葉山町:はやま 寒川町:さむかわ 大磯町:おおいそ 二宮町:にのみや 中井町:なかい 大井町:おおい
+    松田町:まつだ 山北町:やまきた 開成町:かいせい 箱根町:はこね 真鶴町:まなづる 湯河原町:ゆがわら
+    愛川町:あいかわ 清川村:きよかわ
+  `,
+  '新潟県': `
+    新潟市:にいがた 長岡市:ながおか 三条市:さんじょう 柏崎市:かしわざき 新発田市:しばた 小千谷市:おぢや
+    加茂市:かも 十日町市:とおかまち 見附市:みつけ 村上市:むらかみ 燕市:つばめ 糸魚川市:いといがわ
+    妙高市:みょうこう 五泉市:ごせん 上越市:じょうえつ 阿賀野市:あがの 佐渡市:さど 魚沼市:うおぬま
+    南魚沼市:みなみうおぬま 胎内市:たいない
+    聖籠町:せいろう 弥彦村:やひこ 田上町:たがみ 阿賀町:あが 出雲崎町:いずもざき 湯沢町:ゆざわ
+    津南町:つなん 刈羽村:かりわ 関川村:せきかわ 粟島浦村:あわしまうら
+  `,
+  '富山県': `
+    富山市:とやま 高岡市:たかおか 魚津市:うおづ 氷見市:ひみ 滑川市:なめりかわ 黒部市:くろべ
+    砺波市:となみ 小矢部市:おやべ 南砺市:なんと 射水市:いみず
+    舟橋村:ふなはし 上市町:かみいち 立山町:たてやま 入善町:にゅうぜん 朝日町:あさひ
+  `,
+  '石川県': `
+    金沢市:かなざわ 七尾市:ななお 小松市:こまつ 輪島市:わじま 珠洲市:すず 加賀市:かが
+    羽咋市:はくい かほく市:かほく 白山市:はくさん 能美市:のみ 野々市市:ののいち
+    川北町:かわきた 津幡町:つばた 内灘町:うちなだ 志賀町:しか 宝達志水町:ほうだつしみず 中能登町:なかのと
+    穴水町:あなみず 能登町:のと
+  `,
+  '福井県': `
+    福井市:ふくい 敦賀市:つるが 小浜市:おばま 大野市:おおの 勝山市:かつやま 鯖江市:さばえ
+    あわら市:あわら 越前市:えちぜん 坂井市:さかい
+    永平寺町:えいへいじ 池田町:いけだ 南越前町:みなみえちぜん 越前町:えちぜん 美浜町:みはま 高浜町:たかはま
+    おおい町:おおい 若狭町:わかさ
+  `,
+  '山梨県': `
+    甲府市:こうふ 富士吉田市:ふじよしだ 都留市:つる 山梨市:やまなし 大月市:おおつき 韮崎市:にらさき
+    南アルプス市:みなみあるぷす 北杜市:ほくと 甲斐市:かい 笛吹市:ふえふき 上野原市:うえのはら 甲州市:こうしゅう
+    中央市:ちゅうおう
+    市川三郷町:いちかわみさと 早川町:はやかわ 身延町:みのぶ 南部町:なんぶ 富士川町:ふじかわ 昭和町:しょうわ
+    道志村:どうし 西桂町:にしかつら 忍野村:おしの 山中湖村:やまなかこ 鳴沢村:なるさわ 富士河口湖町:ふじかわぐちこ
+    小菅村:こすげ 丹波山村:たばやま
+  `,
+  '長野県': `
+    長野市:ながの 松本市:まつもと 上田市:うえだ 岡谷市:おかや 飯田市:いいだ 諏訪市:すわ
+    須坂市:すざか 小諸市:こもろ 伊那市:いな 駒ヶ根市:こまがね 中野市:なかの 大町市:おおまち
+    飯山市:いいやま 茅野市:ちの 塩尻市:しおじり 佐久市:さく 千曲市:ちくま 東御市:とうみ
+    安曇野市:あづみの
+    小海町:こうみ 川上村:かわかみ 南牧村:みなみまき 南相木村:みなみあいき 北相木村:きたあいき 佐久穂町:さくほ
+    軽井沢町:かるいざわ 御代田町:みよた 立科町:たてしな 青木村:あおき 長和町:ながわ 下諏訪町:しもすわ
+    富士見町:ふじみ 原村:はら 辰野町:たつの 箕輪町:みのわ 飯島町:いいじま 南箕輪村:みなみみのわ
+    中川村:なかがわ 宮田村:みやだ 松川町:まつかわ 高森町:たかもり 阿南町:あなん 阿智村:あち
+    平谷村:ひらや 根羽村:ねば 下條村:しもじょう 売木村:うるぎ 天龍村:てんりゅう 泰阜村:やすおか
+    喬木村:たかぎ 豊丘村:とよおか 大鹿村:おおしか 上松町:あげまつ 南木曽町:なぎそ 木祖村:きそ
+    王滝村:おうたき 大桑村:おおくわ 木曽町:きそ 麻績村:おみ 生坂村:いくさか 山形村:やまがた
+    朝日村:あさひ 筑北村:ちくほく 池田町:いけだ 松川村:まつかわ 白馬村:はくば 小谷村:おたり
+    坂城町:さかき 小布施町:おぶせ 高山村:たかやま 山ノ内町:やまのうち 木島平村:きじまだいら 野沢温泉村:のざわおんせん
+    信濃町:しなの 小川村:おがわ 飯綱町:いいづな 栄村:さかえ
+  `,
+  '岐阜県': `
+    岐阜市:ぎふ 大垣市:おおがき 高山市:たかやま 多治見市:たじみ 関市:せき 中津川市:なかつがわ
+    美濃市:みの 瑞浪市:みずなみ 羽島市:はしま 恵那市:えな 美濃加茂市:みのかも 土岐市:とき
+    各務原市:かかみがはら 可児市:かに 山県市:やまがた 瑞穂市:みずほ 飛騨市:ひだ 本巣市:もとす
+    郡上市:ぐじょう 下呂市:げろ 海津市:かいづ
+    岐南町:ぎなん 笠松町:かさまつ 養老町:ようろう 垂井町:たるい 関ケ原町:せきがはら 神戸町:ごうど
+    輪之内町:わのうち 安八町:あんぱち 揖斐川町:いびがわ 大野町:おおの 池田町:いけだ 北方町:きたがた
+    坂祝町:さかほぎ 富加町:とみか 川辺町:かわべ 七宗町:ひちそう 八百津町:やおつ 白川町:しらかわ
+    東白川村:ひがししらかわ 御嵩町:みたけ 白川村:しらかわ
+  `,
+  '静岡県': `
+    静岡市:しずおか 浜松市:はままつ 沼津市:ぬまづ 熱海市:あたみ 三島市:みしま 富士宮市:ふじのみや
+    伊東市:いとう 島田市:しまだ 富士市:ふじ 磐田市:いわた 焼津市:やいづ 掛川市:かけがわ
+    藤枝市:ふじえだ 御殿場市:ごてんば 袋井市:ふくろい 下田市:しもだ 裾野市:すその 湖西市:こさい
+    伊豆市:いず 御前崎市:おまえざき 菊川市:きくがわ 伊豆の国市:いずのくに 牧之原市:まきのはら
+    東伊豆町:ひがしいず 河津町:かわづ 南伊豆町:みなみいず 松崎町:まつざき 西伊豆町:にしいず 函南町:かんなみ
+    清水町:しみず 長泉町:ながいずみ 小山町:おやま 吉田町:よしだ 川根本町:かわねほん 森町:もり
+  `,
+  '愛知県': `
+    名古屋市:なごや 豊橋市:とよはし 岡崎市:おかざき 一宮市:いちのみや 瀬戸市:せと 半田市:はんだ
+    春日井市:かすがい 豊川市:とよかわ 津島市:つしま 碧南市:へきなん 刈谷市:かりや 豊田市:とよた
+    安城市:あんじょう 西尾市:にしお 蒲郡市:がまごおり 犬山市:いぬやま 常滑市:とこなめ 江南市:こうなん
+    小牧市:こまき 稲沢市:いなざわ 新城市:しんしろ 東海市:とうかい 大府市:おおぶ 知多市:ちた
+    知立市:ちりゅう 尾張旭市:おわりあさひ 高浜市:たかはま 岩倉市:いわくら 豊明市:とよあけ 日進市:にっしん
+    田原市:たはら 愛西市:あいさい 清須市:きよす 北名古屋市:きたなごや 弥富市:やとみ みよし市:みよし
+    あま市:あま 長久手市:ながくて
+    東郷町:とうごう 豊山町:とよやま 大口町:おおぐち 扶桑町:ふそう 大治町:おおはる 蟹江町:かにえ
+    飛島村:とびしま 阿久比町:あぐい 東浦町:ひがしうら 南知多町:みなみちた 美浜町:みはま 武豊町:たけとよ
+    幸田町:こうた 設楽町:したら 東栄町:とうえい 豊根村:とよね
+  `,
+  '三重県': `
+    津市:つ 四日市市:よっかいち 伊勢市:いせ 松阪市:まつさか 桑名市:くわな 鈴鹿市:すずか
+    名張市:なばり 尾鷲市:おわせ 亀山市:かめやま 鳥羽市:とば 熊野市:くまの いなべ市:いなべ
+    志摩市:しま 伊賀市:いが
+    木曽岬町:きそさき 東員町:とういん 菰野町:こもの 朝日町:あさひ 川越町:かわごえ 多気町:たき
+    明和町:めいわ 大台町:おおだい 玉城町:たまき 度会町:わたらい 大紀町:たいき 南伊勢町:みなみいせ
+    紀北町:きほく 御浜町:みはま 紀宝町:きほう
+  `,
+  '滋賀県': `
+    大津市:おおつ 彦根市:ひこね 長浜市:ながはま 近江八幡市:おうみはちまん 草津市:くさつ 守山市:もりやま
+    栗東市:りっとう 甲賀市:こうか 野洲市:やす 湖南市:こなん 高島市:たかしま 東近江市:ひがしおうみ
+    米原市:まいばら
+    日野町:ひの 竜王町:りゅうおう 愛荘町:あいしょう 豊郷町:とよさと 甲良町:こうら 多賀町:たが
+  `,
+  '京都府': `
+    京都市:きょうと 福知山市:ふくちやま 舞鶴市:まいづる 綾部市:あやべ 宇治市:うじ 宮津市:みやづ
+    亀岡市:かめおか 城陽市:じょうよう 向日市:むこう 長岡京市:ながおかきょう 八幡市:やわた 京田辺市:きょうたなべ
+    京丹後市:きょうたんご 南丹市:なんたん 木津川市:きづがわ
+    大山崎町:おおやまざき 久御山町:くみやま 井手町:いで 宇治田原町:うじたわら 笠置町:かさぎ 和束町:わづか
+    精華町:せいか 南山城村:みなみやましろ 京丹波町:きょうたんば 伊根町:いね 与謝野町:よさの
+  `,
+  '大阪府': `
+    大阪市:おおさか 堺市:さかい 岸和田市:きしわだ 豊中市:とよなか 池田市:いけだ 吹田市:すいた
+    泉大津市:いずみおおつ 高槻市:たかつき 貝塚市:かいづか 守口市:もりぐち 枚方市:ひらかた 茨木市:いばらき
+    八尾市:やお 泉佐野市:いずみさの 富田林市:とんだばやし 寝屋川市:ねやがわ 河内長野市:かわちながの 松原市:まつばら
+    大東市:だいとう 和泉市:いずみ 箕面市:みのお 柏原市:かしわら 羽曳野市:はびきの 門真市:かどま
+    摂津市:せっつ 高石市:たかいし 藤井寺市:ふじいでら 東大阪市:ひがしおおさか 泉南市:せんなん 四條畷市:しじょうなわて
+    交野市:かたの 大阪狭山市:おおさかさやま 阪南市:はんなん
+    島本町:しまもと 豊能町:とよの 能勢町:のせ 忠岡町:ただおか 熊取町:くまとり 田尻町:たじり
+    岬町:みさき 太子町:たいし 河南町:かなん 千早赤阪村:ちはやあかさか
+  `,
+  '兵庫県': `
+    神戸市:こうべ 姫路市:ひめじ 尼崎市:あまがさき 明石市:あかし 西宮市:にしのみや 洲本市:すもと
+    芦屋市:あしや 伊丹市:いたみ 相生市:あいおい 豊岡市:とよおか 加古川市:かこがわ 赤穂市:あこう
+    西脇市:にしわき 宝塚市:たからづか 三木市:みき 高砂市:たかさご 川西市:かわにし 小野市:おの
+    三田市:さんだ 加西市:かさい 丹波篠山市:たんばささやま 養父市:やぶ 丹波市:たんば 南あわじ市:みなみあわじ
+    朝来市:あさご 淡路市:あわじ 宍粟市:しそう 加東市:かとう たつの市:たつの
+    猪名川町:いながわ 多可町:たか 稲美町:いなみ 播磨町:はりま 市川町:いちかわ 福崎町:ふくさき
+    神河町:かみかわ 太子町:たいし 上郡町:かみごおり 佐用町:さよう 香美町:かみ 新温泉町:しんおんせん
+  `,
+  '奈良県': `
+    奈良市:なら 大和高田市:やまとたかだ 大和郡山市:やまとこおりやま 天理市:てんり 橿原市:かしはら 桜井市:さくらい
+    五條市:ごじょう 御所市:ごせ 生駒市:いこま 香芝市:かしば 葛城市:かつらぎ 宇陀市:うだ
+    山添村:やまぞえ 平群町:へぐり 三郷町:さんごう 斑鳩町:いかるが 安堵町:あんど 川西町:かわにし
+    三宅町:みやけ 田原本町:たわらもと 曽爾村:そに 御杖村:みつえ 高取町:たかとり 明日香村:あすか
+    上牧町:かんまき 王寺町:おうじ 広陵町:こうりょう 河合町:かわい 吉野町:よしの 大淀町:おおよど
+    下市町:しもいち 黒滝村:くろたき 天川村:てんかわ 野迫川村:のせがわ 十津川村:とつかわ 下北山村:しもきたやま
+    上北山村:かみきたやま 川上村:かわかみ 東吉野村:ひがしよしの
+  `,
+  '和歌山県': `
+    和歌山市:わかやま 海南市:かいなん 橋本市:はしもと 有田市:ありだ 御坊市:ごぼう 田辺市:たなべ
+    新宮市:しんぐう 紀の川市:きのかわ 岩出市:いわで
+    紀美野町:きみの かつらぎ町:かつらぎ 九度山町:くどやま 高野町:こうや 湯浅町:ゆあさ 広川町:ひろがわ
+    有田川町:ありだがわ 美浜町:みはま 日高町:ひだか 由良町:ゆら 印南町:いなみ みなべ町:みなべ
+    日高川町:ひだかがわ 白浜町:しらはま 上富田町:かみとんだ すさみ町:すさみ 那智勝浦町:なちかつうら 太地町:たいじ
+    古座川町:こざがわ 北山村:きたやま 串本町:くしもと
+  `,
+  '鳥取県': `
+    鳥取市:とっとり 米子市:よなご 倉吉市:くらよし 境港市:さかいみなと
+    岩美町:いわみ 若桜町:わかさ 智頭町:ちづ 八頭町:やず 三朝町:みささ 湯梨浜町:ゆりはま
+    琴浦町:ことうら 北栄町:ほくえい 日吉津村:ひえづ 大山町:だいせん 南部町:なんぶ 伯耆町:ほうき
+    日南町:にちなん 日野町:ひの 江府町:こうふ
+  `,
+  '島根県': `
+    松江市:まつえ 浜田市:はまだ 出雲市:いずも 益田市:ますだ 大田市:おおだ 安来市:やすぎ
+    江津市:ごうつ 雲南市:うんなん
+    奥出雲町:おくいずも 飯南町:いいなん 川本町:かわもと 美郷町:みさと 邑南町:おおなん 津和野町:つわの
+    吉賀町:よしか 海士町:あま 西ノ島町:にしのしま 知夫村:ちぶ 隠岐の島町:おきのしま
+  `,
+  '岡山県': `
+    岡山市:おかやま 倉敷市:くらしき 津山市:つやま 玉野市:たまの 笠岡市:かさおか 井原市:いばら
+    総社市:そうじゃ 高梁市:たかはし 新見市:にいみ 備前市:びぜん 瀬戸内市:せとうち 赤磐市:あかいわ
+    真庭市:まにわ 美作市:みまさか 浅口市:あさくち
+    和気町:わけ 早島町:はやしま 里庄町:さとしょう 矢掛町:やかげ 新庄村:しんじょう 鏡野町:かがみの
+    勝央町:しょうおう 奈義町:なぎ 西粟倉村:にしあわくら 久米南町:くめなん 美咲町:みさき 吉備中央町:きびちゅうおう
+  `,
+  '広島県': `
+    広島市:ひろしま 呉市:くれ 竹原市:たけはら 三原市:みはら 尾道市:おのみち 福山市:ふくやま
+    府中市:ふちゅう 三次市:みよし 庄原市:しょうばら 大竹市:おおたけ 東広島市:ひがしひろしま 廿日市市:はつかいち
+    安芸高田市:あきたかた 江田島市:えたじま
+    府中町:ふちゅう 海田町:かいた 熊野町:くまの 坂町:さか 安芸太田町:あきおおた 北広島町:きたひろしま
+    大崎上島町:おおさきかみじま 世羅町:せら 神石高原町:じんせきこうげん
+  `,
+  '山口県': `
+    下関市:しものせき 宇部市:うべ 山口市:やまぐち 萩市:はぎ 防府市:ほうふ 下松市:くだまつ
+    岩国市:いわくに 光市:ひかり 長門市:ながと 柳井市:やない 美祢市:みね 周南市:しゅうなん
+    山陽小野田市:さんようおのだ
+    周防大島町:すおうおおしま 和木町:わき 上関町:かみのせき 田布施町:たぶせ 平生町:ひらお 阿武町:あぶ
+  `,
+  '徳島県': `
+    徳島市:とくしま 鳴門市:なると 小松島市:こまつしま 阿南市:あなん 吉野川市:よしのがわ 阿波市:あわ
+    美馬市:みま 三好市:みよし
+    勝浦町:かつうら 上勝町:かみかつ 佐那河内村:さなごうち 石井町:いしい 神山町:かみやま 那賀町:なか
+    牟岐町:むぎ 美波町:みなみ 海陽町:かいよう 松茂町:まつしげ 北島町:きたじま 藍住町:あいずみ
+    板野町:いたの 上板町:かみいた つるぎ町:つるぎ 東みよし町:ひがしみよし
+  `,
+  '香川県': `
+    高松市:たかまつ 丸亀市:まるがめ 坂出市:さかいで 善通寺市:ぜんつうじ 観音寺市:かんおんじ さぬき市:さぬき
+    東かがわ市:ひがしかがわ 三豊市:みとよ
+    土庄町:とのしょう 小豆島町:しょうどしま 三木町:みき 直島町:なおしま 宇多津町:うたづ 綾川町:あやがわ
+    琴平町:ことひら 多度津町:たどつ まんのう町:まんのう
+  `,
+  '愛媛県': `
+    松山市:まつやま 今治市:いまばり 宇和島市:うわじま 八幡浜市:やわたはま 新居浜市:にいはま 西条市:さいじょう
+    大洲市:おおず 伊予市:いよ 四国中央市:しこくちゅうおう 西予市:せいよ 東温市:とうおん
+    上島町:かみじま 久万高原町:くまこうげん 松前町:まさき 砥部町:とべ 内子町:うちこ 伊方町:いかた
+    松野町:まつの 鬼北町:きほく 愛南町:あいなん
+  `,
+  '高知県': `
+    高知市:こうち 室戸市:むろと 安芸市:あき 南国市:なんこく 土佐市:とさ 須崎市:すさき
+    宿毛市:すくも 土佐清水市:とさしみず 四万十市:しまんと 香南市:こうなん 香美市:かみ
+    東洋町:とうよう 奈半利町:なはり 田野町:たの 安田町:やすだ 北川村:きたがわ 馬路村:うまじ
+    芸西村:げいせい 本山町:もとやま 大豊町:おおとよ 土佐町:とさ 大川村:おおかわ いの町:いの
+    仁淀川町:によどがわ 中土佐町:なかとさ 佐川町:さかわ 越知町:おち 檮原町:ゆすはら 日高村:ひだか
+    津野町:つの 四万十町:しまんと 大月町:おおつき 三原村:みはら 黒潮町:くろしお
+  `,
+  '福岡県': `
+    北九州市:きたきゅうしゅう 福岡市:ふくおか 大牟田市:おおむた 久留米市:くるめ 直方市:のおがた 飯塚市:いいづか
+    田川市:たがわ 柳川市:やながわ 八女市:やめ 筑後市:ちくご 大川市:おおかわ 行橋市:ゆくはし
+    豊前市:ぶぜん 中間市:なかま 小郡市:おごおり 筑紫野市:ちくしの 春日市:かすが 大野城市:おおのじょう
+    宗像市:むなかた 太宰府市:だざいふ 古賀市:こが 福津市:ふくつ うきは市:うきは 宮若市:みやわか
+    嘉麻市:かま 朝倉市:あさくら みやま市:みやま 糸島市:いとしま 那珂川市:なかがわ
+    宇美町:うみ 篠栗町:ささぐり 志免町:しめ 須恵町:すえ 新宮町:しんぐう 久山町:ひさやま
+    粕屋町:かすや 芦屋町:あしや 水巻町:みずまき 岡垣町:おかがき 遠賀町:おんが 小竹町:こたけ
+    鞍手町:くらて 桂川町:けいせん 筑前町:ちくぜん 東峰村:とうほう 大刀洗町:たちあらい 大木町:おおき
+    広川町:ひろかわ 香春町:かわら 添田町:そえだ 糸田町:いとだ 川崎町:かわさき 大任町:おおとう
+    赤村:あか 福智町:ふくち 苅田町:かんだ みやこ町:みやこ 吉富町:よしとみ 上毛町:こうげ
+    築上町:ちくじょう
+  `,
+  '佐賀県': `
+    佐賀市:さが 唐津市:からつ 鳥栖市:とす 多久市:たく 伊万里市:いまり 武雄市:たけお
+    鹿島市:かしま 小城市:おぎ 嬉野市:うれしの 神埼市:かんざき
+    吉野ヶ里町:よしのがり 基山町:きやま 上峰町:かみみね みやき町:みやき 玄海町:げんかい 有田町:ありた
+    大町町:おおまち 江北町:こうほく 白石町:しろいし 太良町:たら
+  `,
+  '長崎県': `
+    長崎市:ながさき 佐世保市:させぼ 島原市:しまばら 諫早市:いさはや 大村市:おおむら 平戸市:ひらど
+    松浦市:まつうら 対馬市:つしま 壱岐市:いき 五島市:ごとう 西海市:さいかい 雲仙市:うんぜん
+    南島原市:みなみしまばら
+    長与町:ながよ 時津町:とぎつ 東彼杵町:ひがしそのぎ 川棚町:かわたな 波佐見町:はさみ 小値賀町:おぢか
+    佐々町:さざ 新上五島町:しんかみごとう
+  `,
+  '熊本県': `
+    熊本市:くまもと 八代市:やつしろ 人吉市:ひとよし 荒尾市:あらお 水俣市:みなまた 玉名市:たまな
+    山鹿市:やまが 菊池市:きくち 宇土市:うと 上天草市:かみあまくさ 宇城市:うき 阿蘇市:あそ
+    天草市:あまくさ 合志市:こうし
+    美里町:みさと 玉東町:ぎょくとう 南関町:なんかん 長洲町:ながす 和水町:なごみ 大津町:おおづ
+    菊陽町:きくよう 南小国町:みなみおぐに 小国町:おぐに 産山村:うぶやま 高森町:たかもり 西原村:にしはら
+    南阿蘇村:みなみあそ 御船町:みふね 嘉島町:かしま 益城町:ましき 甲佐町:こうさ 山都町:やまと
+    氷川町:ひかわ 芦北町:あしきた 津奈木町:つなぎ 錦町:にしき 多良木町:たらぎ 湯前町:ゆのまえ
+    水上村:みずかみ 相良村:さがら 五木村:いつき 山江村:やまえ 球磨村:くま あさぎり町:あさぎり
+    苓北町:れいほく
+  `,
+  '大分県': `
+    大分市:おおいた 別府市:べっぷ 中津市:なかつ 日田市:ひた 佐伯市:さいき 臼杵市:うすき
+    津久見市:つくみ 竹田市:たけた 豊後高田市:ぶんごたかだ 杵築市:きつき 宇佐市:うさ 豊後大野市:ぶんごおおの
+    由布市:ゆふ 国東市:くにさき
+    姫島村:ひめしま 日出町:ひじ 九重町:ここのえ 玖珠町:くす
+  `,
+  '宮崎県': `
+    宮崎市:みやざき 都城市:みやこのじょう 延岡市:のべおか 日南市:にちなん 小林市:こばやし 日向市:ひゅうが
+    串間市:くしま 西都市:さいと えびの市:えびの
+    三股町:みまた 高原町:たかはる 国富町:くにとみ 綾町:あや 高鍋町:たかなべ 新富町:しんとみ
+    西米良村:にしめら 木城町:きじょう 川南町:かわみなみ 都農町:つの 門川町:かどがわ 諸塚村:もろつか
+    椎葉村:しいば 美郷町:みさと 高千穂町:たかちほ 日之影町:ひのかげ 五ヶ瀬町:ごかせ
+  `,
+  '鹿児島県': `
+    鹿児島市:かごしま 鹿屋市:かのや 枕崎市:まくらざき 阿久根市:あくね 出水市:いずみ 指宿市:いぶすき
+    西之表市:にしのおもて 垂水市:たるみず 薩摩川内市:さつませんだい 日置市:ひおき 曽於市:そお 霧島市:きりしま
+    いちき串木野市:いちきくしきの 南さつま市:みなみさつま 志布志市:しぶし 奄美市:あまみ 南九州市:みなみきゅうしゅう 伊佐市:いさ
+    姶良市:あいら
+    三島村:みしま 十島村:としま さつま町:さつま 長島町:ながしま 湧水町:ゆうすい 大崎町:おおさき
+    東串良町:ひがしくしら 錦江町:きんこう 南大隅町:みなみおおすみ 肝付町:きもつき 中種子町:なかたね 南種子町:みなみたね
+    屋久島町:やくしま 大和村:やまと 宇検村:うけん 瀬戸内町:せとうち 龍郷町:たつごう 喜界町:きかい
+    徳之島町:とくのしま 天城町:あまぎ 伊仙町:いせん 和泊町:わどまり 知名町:ちな 与論町:よろん
+  `,
+  '沖縄県': `
+    那覇市:なは 宜野湾市:ぎのわん 石垣市:いしがき 浦添市:うらそえ 名護市:なご 糸満市:いとまん
+    沖縄市:おきなわ 豊見城市:とみぐすく うるま市:うるま 宮古島市:みやこじま 南城市:なんじょう
+    国頭村:くにがみ 大宜味村:おおぎみ 東村:ひがし 今帰仁村:なきじん 本部町:もとぶ 恩納村:おんな
+    宜野座村:ぎのざ 金武町:きん 伊江村:いえ 読谷村:よみたん 嘉手納町:かでな 北谷町:ちゃたん
+    北中城村:きたなかぐすく 中城村:なかぐすく 西原町:にしはら 与那原町:よなばる 南風原町:はえばる 渡嘉敷村:とかしき
+    座間味村:ざまみ 粟国村:あぐに 渡名喜村:となき 南大東村:みなみだいとう 北大東村:きただいとう 伊平屋村:いへや
+    伊是名村:いぜな 久米島町:くめじま 八重瀬町:やえせ 多良間村:たらま 竹富町:たけとみ 与那国町:よなぐに
+  `,
+};
@@ -0,0 +1,35 @@
+/**
+ * 都道府県の一覧（JIS X 0401 の都道府県コード順）
+ */
+export const PREFECTURES: readonly string[] = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県',
+  '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県',
+  '静岡県', '愛知県', '三重県', '滋賀県', '京都府', '大阪府', '兵庫県',
+  '奈良県', '和歌山県', '鳥取県', '島根県', '岡山県', '広島県', '山口県',
+  '徳島県', '香川県', '愛媛県', '高知県', '福岡県', '佐賀県', '長崎県',
+  '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県'
+];
+
+/**
+ * 都道府県名として正しいかを判定する
+ */
+export function isPrefecture(name: string): boolean {
+  return PREFECTURES.includes(name);
+}
+
+/**
+ * 都道府県名の読み（末尾の都・府・県を除いた部分のひらがな、北海道は全体）
+ */
+export const PREFECTURE_READINGS: Readonly<Record<string, string>> = {
+  '北海道': 'ほっかいどう', '青森県': 'あおもり', '岩手県': 'いわて', '宮城県': 'みやぎ', '秋田県': 'あきた',
+  '山形県': 'やまがた', '福島県': 'ふくしま', '茨城県': 'いばらき', '栃木県': 'とちぎ', '群馬県': 'ぐんま',
+  '埼玉県': 'さいたま', '千葉県': 'ちば', '東京都': 'とうきょう', '神奈川県': 'かながわ', '新潟県': 'にいがた',
+  '富山県': 'とやま', '石川県': 'いしかわ', '福井県': 'ふくい', '山梨県': 'やまなし', '長野県': 'ながの',
+  '岐阜県': 'ぎふ', '静岡県': 'しずおか', '愛知県': 'あいち', '三重県': 'みえ', '滋賀県': 'しが',
+  '京都府': 'きょうと', '大阪府': 'おおさか', '兵庫県': 'ひょうご', '奈良県': 'なら', '和歌山県': 'わかやま',
+  '鳥取県': 'とっとり', '島根県': 'しまね', '岡山県': 'おかやま', '広島県': 'ひろしま', '山口県': 'やまぐち',
+  '徳島県': 'とくしま', '香川県': 'かがわ', '愛媛県': 'えひめ', '高知県': 'こうち', '福岡県': 'ふくおか',
+  '佐賀県': 'さが', '長崎県': 'ながさき', '熊本県': 'くまもと', '大分県': 'おおいた', '宮崎県': 'みやざき',
+  '鹿児島県': 'かごしま', '沖縄県': 'おきなわ'
+};
@@ -0,0 +1,313 @@
+import { IsbnRejection, extractIsbns } from './isbn.js';
+
+/**
+ * 読書リストの形式
+ * - csv: 見出し行のあるCSV・TSV（スプレッドシートなど）
+ * - bibtex / ris: 文献管理ソフトの書き出し
+ * - booklog: ブクログのエクスポート（見出し行のないCSV）
+ * - bookmeter: 読書メーターのエクスポート（見出し行のあるCSV）
+ * - text: 1行に1冊（ISBNまたは書名）
+ */
+export type ReadingListFormat = 'csv' | 'bibtex' | 'ris' | 'booklog' | 'bookmeter' | 'text';
+
+export const READING_LIST_FORMATS: readonly ReadingListFormat[] = ['csv', 'bibtex', 'ris', 'booklog', 'bookmeter', 'text'];
+
+/**
+ * 読書リストの1冊
+ */
+export interface ReadingListEntry {
+  /** リストでの位置（1始まり） */
+  position: number;
+  title?: string;
+  author?: string;
+  /** 検証済みのISBN-13（見つからない場合は省略） */
+  isbn?: string;
+  /** ISBNの候補のうち不正と判定されたもの */
+  rejected: IsbnRejection[];
+}
+
+/**
+ * ブクログのエクスポートの列（サービスID, アイテムID, 13桁ISBN, カテゴリ, 評価, 読書状況, レビュー, タグ,
+ * 読書メモ, 登録日時, 読了日, タイトル, 作者名, 出版社名, 発行年, ジャンル, ページ数, 価格）
+ */
+const BOOKLOG_COLUMNS = { itemId: 1, isbn: 2, title: 11, author: 12 };
+
+/**
+ * 見出し行の列名を照合用に正規化する
+ */
+function normalizeHeader(header: string): string {
+  return header.normalize('NFKC').toLowerCase().replace(/[\s_\-]/g, '');
+}
+
+function isIsbnHeader(header: string): boolean {
+  return header.includes('isbn') || header === 'asin';
+}
+
+function isTitleHeader(header: string): boolean {
+  return header.includes('title') || ['タイトル', '書名', '書籍名', '本のタイトル'].includes(header);
+}
+
+function isAuthorHeader(header: string): boolean {
+  return header.includes('author') || ['著者', '著者名', '作者', '作者名', '著者・編者'].includes(header);
+}
+
+/**
+ * CSV・TSVを行と列に分ける（RFC 4180 の引用符に対応）
+ * 1行目にタブがありカンマがない場合はTSVとして扱う
+ */
+function parseDelimited(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell !== ''));
+}
+
+/**
+ * 書誌情報の文字列からISBNを取り出してエントリを作る
+ */
+function toEntry(position: number, isbnText: string, title?: string, author?: string): ReadingListEntry {
+  const { valid, rejected } = extractIsbns(isbnText);
+  return {
+    position,
+    ...(title && { title }),
+    ...(author && { author }),
+    ...(valid.length > 0 && { isbn: valid[0].isbn13 }),
+    rejected: valid.length > 0 ? [] : rejected,
+  };
+}
+
+/**
+ * 見出し行のあるCSV（スプレッドシート・読書メーター）
+ * ISBN・書名・著者の列を見出しから探す。ISBNの列がない場合は行全体からISBNを探す
+ */
+function parseHeaderCsv(rows: string[][]): ReadingListEntry[] {
+  const [header, ...records] = rows;
+  const columns = header.map(normalizeHeader);
+  const isbnColumns = columns.flatMap((column, index) => (isIsbnHeader(column) ? [index] : []));
+  const titleColumn = columns.findIndex(isTitleHeader);
+  const authorColumn = columns.findIndex(isAuthorHeader);
+
+  return records.map((record, index) => toEntry(
+    index + 1,
+    (isbnColumns.length > 0 ? isbnColumns.map(column => record[column] ?? '') : record).join(' '),
+    titleColumn >= 0 ? record[titleColumn] : undefined,
+    authorColumn >= 0 ? record[authorColumn] : undefined
+  ));
+}
+
+/**
+ * ブクログのエクスポート
+ * 13桁ISBNが空の場合は、アイテムID（本のASINはISBN-10）から探す
+ */
+function parseBooklog(rows: string[][]): ReadingListEntry[] {
+  return rows.map((record, index) => toEntry(
+    index + 1,
+    `${record[BOOKLOG_COLUMNS.isbn] ?? ''} ${record[BOOKLOG_COLUMNS.itemId] ?? ''}`,
+    record[BOOKLOG_COLUMNS.title],
+    record[BOOKLOG_COLUMNS.author]
+  ));
+}
+
+/**
+ * BibTeX の値から囲みの括弧・引用符を除く
+ */
+function cleanBibtexValue(value: string): string {
+  return value.trim().replace(/^[{"]|[}"]$/g, '').replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * BibTeX のエントリの本体を「フィールド名 = 値」の組に分ける（括弧の入れ子と引用符に対応）
+ */
+function parseBibtexFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of body) {
+    if (char === '"' && depth === 0) {
+      quoted = !quoted;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    }
+    if (char === ',' && depth === 0 && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  for (const part of parts) {
+    const separator = part.indexOf('=');
+    if (separator > 0) {
+      fields[part.slice(0, separator).trim().toLowerCase()] = cleanBibtexValue(part.slice(separator + 1));
+    }
+  }
+  return fields;
+}
+
+/**
+ * BibTeX（@book{key, title = {...}, isbn = {...}} の並び）
+ */
+function parseBibtex(content: string): ReadingListEntry[] {
+  const entries: ReadingListEntry[] = [];
+  const starts = [...content.matchAll(/@(\w+)\s*\{/g)]
+    .filter(match => !['comment', 'preamble', 'string'].includes(match[1].toLowerCase()));
+
+  for (const match of starts) {
+    // 対応する閉じ括弧までをエントリの本体とする
+    let depth = 1;
+    let end = (match.index ?? 0) + match[0].length;
+    while (end < content.length && depth > 0) {
+      if (content[end] === '{') {
+        depth++;
+      } else if (content[end] === '}') {
+        depth--;
+      }
+      end++;
+    }
+    const body = content.slice((match.index ?? 0) + match[0].length, end - 1);
+    const fields = parseBibtexFields(body.slice(body.indexOf(',') + 1));
+    entries.push(toEntry(entries.length + 1, fields.isbn ?? '', fields.title, fields.author?.replace(/\s+and\s+/g, '; ')));
+  }
+
+  return entries;
+}
+
+/**
+ * RIS（TY から ER までが1件、各行は「タグ  - 値」）
+ */
+function parseRis(content: string): ReadingListEntry[] {
+  const entries: ReadingListEntry[] = [];
+  let fields: Record<string, string[]> | null = null;
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9])  -\s?(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, tag, value] = match;
+    if (tag === 'TY') {
+      fields = {};
+    } else if (tag === 'ER' && fields) {
+      const title = fields.TI?.[0] ?? fields.T1?.[0] ?? fields.BT?.[0];
+      const authors = [...(fields.AU ?? []), ...(fields.A1 ?? [])];
+      entries.push(toEntry(entries.length + 1, (fields.SN ?? []).join(' '), title, authors.join('; ') || undefined));
+      fields = null;
+    } else if (fields) {
+      (fields[tag] ??= []).push(value.trim());
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * 1行に1冊のテキスト（ISBNを含まない行は書名とみなす）
+ */
+function parseText(content: string): ReadingListEntry[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map((line, index) => {
+      const entry = toEntry(index + 1, line);
+      const title = line.replace(/ISBN(?:-1[03])?:?/gi, '').replace(/[0-9][0-9\-\s]{8,16}[0-9X]/gi, '').replace(/^[\s,\t\-:]+|[\s,\t\-:]+$/g, '');
+      return title ? { ...entry, title } : entry;
+    });
+}
+
+/**
+ * 読書リストの形式を内容から判定する
+ */
+export function detectReadingListFormat(content: string): ReadingListFormat {
+  if (/^\s*@\w+\s*\{/m.test(content)) {
+    return 'bibtex';
+  }
+  if (/^TY  - /m.test(content)) {
+    return 'ris';
+  }
+
+  const rows = parseDelimited(content);
+  if (rows.length === 0 || rows.every(row => row.length === 1)) {
+    return 'text';
+  }
+  const header = rows[0].map(normalizeHeader);
+  if (header.some(column => isIsbnHeader(column) || isTitleHeader(column))) {
+    return header.some(column => column.includes('読了日')) ? 'bookmeter' : 'csv';
+  }
+  // ブクログは見出し行がなく、3列目が13桁ISBN（本以外は空）
+  if (rows[0].length > BOOKLOG_COLUMNS.author && /^(97[89][0-9]{10})?$/.test(rows[0][BOOKLOG_COLUMNS.isbn])) {
+    return 'booklog';
+  }
+  return 'text';
+}
+
+/**
+ * 読書リストを解析し、1冊ごとの書名・著者・ISBNを取り出す
+ * ISBNの抽出と検証は検索クエリと同じ規則（extractIsbns）で行う
+ *
+ * @param content 読書リストの内容
+ * @param format 形式（省略時は内容から判定）
+ */
+export function parseReadingList(content: string, format: ReadingListFormat = detectReadingListFormat(content)): { format: ReadingListFormat; entries: ReadingListEntry[] } {
+  switch (format) {
+    case 'bibtex':
+      return { format, entries: parseBibtex(content) };
+    case 'ris':
+      return { format, entries: parseRis(content) };
+    case 'booklog':
+      return { format, entries: parseBooklog(parseDelimited(content)) };
+    case 'text':
+      return { format, entries: parseText(content) };
+    default: {
+      const rows = parseDelimited(content);
+      return { format, entries: rows.length > 0 ? parseHeaderCsv(rows) : [] };
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import { BookAvailabilityResult, LendingStatus, LibraryInfo } from '../types/calil.js';
+import { Coordinates, distanceKm, parseGeocode } from './geo.js';
+
+/**
+ * 訪問する図書館の組み合わせを総当たりで調べる上限
+ * 候補の図書館が多く上限を超える場合は貪欲法の結果を使う
+ */
+const MAX_COVER_COMBINATIONS = 100_000;
+
+/**
+ * 1回の計画で扱える本の数（plan_library_visits の上限。本の集合をビットマスクで表すため31冊未満とする）
+ */
+export const MAX_PLANNED_BOOKS = 20;
+
+/**
+ * 訪問する図書館1館
+ */
+export interface PlannedVisit {
+  library: LibraryInfo;
+  /** この図書館で借りる本 */
+  books: { isbn: string; title?: string; reserveUrl?: string }[];
+  /** 前の地点（出発地点または前の図書館）からの直線距離（km、座標が分からない場合はnull） */
+  distanceKm: number | null;
+}
+
+/**
+ * すぐに借りられる図書館がない本
+ */
+export interface UncoveredBook {
+  isbn: string;
+  title?: string;
+  /** 所蔵している図書館とその貸出状態（所蔵館がない場合は空） */
+  heldAt: { library: string; status: LendingStatus }[];
+}
+
+/**
+ * 図書館の訪問計画
+ */
+export interface VisitPlan {
+  /** 訪問する順の図書館 */
+  visits: PlannedVisit[];
+  /** 訪問順の直線距離の合計（km、座標が分からない図書館への移動は含まない） */
+  totalDistanceKm: number;
+  /** すぐに借りられる図書館がない本 */
+  uncovered: UncoveredBook[];
+  /** 訪問する図書館数が最小であることを確かめたか（候補が多すぎる場合は貪欲法の結果で false） */
+  optimal: boolean;
+}
+
+/**
+ * すぐに借りられる本がある図書館（mask は借りられる本の位置のビット）
+ */
+interface Candidate {
+  library: LibraryInfo;
+  location: Coordinates | null;
+  mask: number;
+  reserveUrls: Record<string, string>;
+}
+
+function bitCount(mask: number): number {
+  let count = 0;
+  for (let value = mask; value !== 0; value &= value - 1) {
+    count++;
+  }
+  return count;
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = result * (n - k + i) / i;
+  }
+  return Math.round(result);
+}
+
+function roundKm(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 本ごとの蔵書状態を、すぐに借りられる本がある図書館ごとにまとめる
+ */
+function collectCandidates(results: BookAvailabilityResult[]): Candidate[] {
+  const candidates = new Map<string, Candidate>();
+  results.forEach((result, index) => {
+    for (const entry of result.availability) {
+      if (entry.status !== 'available') {
+        continue;
+      }
+      const candidate = candidates.get(entry.library.libid)
+        ?? { library: entry.library, location: parseGeocode(entry.library.geocode), mask: 0, reserveUrls: {} };
+      candidate.mask |= 1 << index;
+      if (entry.reserveUrl) {
+        candidate.reserveUrls[result.isbn] = entry.reserveUrl;
+      }
+      candidates.set(entry.library.libid, candidate);
+    }
+  });
+  return [...candidates.values()];
+}
+
+/**
+ * 貪欲法で図書館を選ぶ（まだ借りられていない本を最も多く借りられる館から順に選ぶ）
+ * 同数の場合は直前の地点に近い館を選ぶ
+ */
+function greedyCover(candidates: Candidate[], target: number, start?: Coordinates): Candidate[] {
+  const selected: Candidate[] = [];
+  let covered = 0;
+  let position = start ?? null;
+
+  while (covered !== target) {
+    let best: Candidate | null = null;
+    let bestGain = 0;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (const candidate of candidates) {
+      const gain = bitCount(candidate.mask & ~covered);
+      const distance = position && candidate.location ? distanceKm(position, candidate.location) : Number.POSITIVE_INFINITY;
+      if (gain > bestGain || (gain === bestGain && gain > 0 && distance < bestDistance)) {
+        best = candidate;
+        bestGain = gain;
+        bestDistance = distance;
+      }
+    }
+    if (!best) {
+      break;
+    }
+    selected.push(best);
+    covered |= best.mask;
+    position = best.location ?? position;
+  }
+
+  return selected;
+}
+
+/**
+ * すべての本を借りられる最小の図書館の組み合わせを総当たりで探す
+ *
+ * @param upperBound 貪欲法で選んだ図書館数（これより多くは調べない）
+ * @returns 最小の組み合わせすべて（組み合わせが多すぎる場合はnull）
+ */
+function minimalCovers(candidates: Candidate[], target: number, upperBound: number): Candidate[][] | null {
+  let budget = MAX_COVER_COMBINATIONS;
+
+  for (let size = 1; size <= upperBound; size++) {
+    const count = binomial(candidates.length, size);
+    if (count > budget) {
+      return null;
+    }
+    budget -= count;
+
+    const covers: Candidate[][] = [];
+    const chosen: Candidate[] = [];
+    const search = (from: number, mask: number) => {
+      if (chosen.length === size) {
+        if (mask === target) {
+          covers.push([...chosen]);
+        }
+        return;
+      }
+      for (let index = from; index <= candidates.length - (size - chosen.length); index++) {
+        chosen.push(candidates[index]);
+        search(index + 1, mask | candidates[index].mask);
+        chosen.pop();
+      }
+    };
+    search(0, 0);
+
+    if (covers.length > 0) {
+      return covers;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 最近傍法で訪問順を決める
+ * 出発地点がない場合は、各館を最初に訪れる順をすべて試して最も短いものを選ぶ
+ * 座標が分からない図書館は最後に回す
+ */
+function orderStops(stops: Candidate[], start?: Coordinates): { order: Candidate[]; distance: number } {
+  const located = stops.filter(stop => stop.location);
+  const unlocated = stops.filter(stop => !stop.location);
+
+  const route = (first: Coordinates, remaining: Candidate[], initial: Candidate[]) => {
+    const order = [...initial];
+    let position = first;
+    let distance = 0;
+    const rest = [...remaining];
+    while (rest.length > 0) {
+      let nearest = 0;
+      for (let index = 1; index < rest.length; index++) {
+        if (distanceKm(position, rest[index].location!) < distanceKm(position, rest[nearest].location!)) {
+          nearest = index;
+        }
+      }
+      const [next] = rest.splice(nearest, 1);
+      distance += distanceKm(position, next.location!);
+      position = next.location!;
+      order.push(next);
+    }
+    return { order, distance };
+  };
+
+  let best = { order: [] as Candidate[], distance: 0 };
+  if (start) {
+    best = route(start, located, []);
+  } else {
+    let shortest = Number.POSITIVE_INFINITY;
+    for (const first of located) {
+      const candidate = route(first.location!, located.filter(stop => stop !== first), [first]);
+      if (candidate.distance < shortest) {
+        best = candidate;
+        shortest = candidate.distance;
+      }
+    }
+  }
+
+  return { order: [...best.order, ...unlocated], distance: best.distance };
+}
+
+/**
+ * 複数の本を受け取るために訪れる図書館を計画する
+ * すぐに借りられる（貸出可の）本をすべて借りられる最小の図書館の組み合わせ（集合被覆）を選び、
+ * 直線距離の最近傍法で訪問順を決める。同じ館数の組み合わせが複数ある場合は移動距離の短いものを選ぶ
+ *
+ * @param results 本ごとの蔵書検索結果（MAX_PLANNED_BOOKS 冊まで）
+ * @param start 出発地点（省略時は移動距離が最短になる図書館から回る）
+ */
+export function planLibraryVisits(results: BookAvailabilityResult[], start?: Coordinates): VisitPlan {
+  if (results.length > MAX_PLANNED_BOOKS) {
+    throw new RangeError(`At most ${MAX_PLANNED_BOOKS} books can be planned at once`);
+  }
+
+  const candidates = collectCandidates(results);
+  const target = candidates.reduce((mask, candidate) => mask | candidate.mask, 0);
+  const greedy = greedyCover(candidates, target, start);
+  const covers = target === 0 ? [[]] : minimalCovers(candidates, target, greedy.length);
+
+  // 館数が最小の組み合わせのうち、移動距離が最短のものを選ぶ
+  let route = orderStops(greedy, start);
+  if (covers) {
+    route = covers
+      .map(cover => orderStops(cover, start))
+      .reduce((best, candidate) => (candidate.distance < best.distance ? candidate : best));
+  }
+
+  // 訪問順に、まだ割り当てていない本をその館で借りる
+  let assigned = 0;
+  const stops = route.order.flatMap(stop => {
+    const mask = stop.mask & ~assigned;
+    assigned |= mask;
+    return mask === 0 ? [] : [{ stop, mask }];
+  });
+
+  let position: Coordinates | null = start ?? null;
+  let totalDistanceKm = 0;
+  const visits = stops.map(({ stop, mask }) => {
+    const distance = position && stop.location ? distanceKm(position, stop.location) : null;
+    totalDistanceKm += distance ?? 0;
+    position = stop.location ?? position;
+    return {
+      library: stop.library,
+      books: results
+        .filter((_, index) => mask & (1 << index))
+        .map(result => ({
+          isbn: result.isbn,
+          ...(result.title && { title: result.title }),
+          ...(stop.reserveUrls[result.isbn] && { reserveUrl: stop.reserveUrls[result.isbn] }),
+        })),
+      distanceKm: distance === null ? null : roundKm(distance),
+    };
+  });
+
+  return {
+    visits,
+    totalDistanceKm: roundKm(totalDistanceKm),
+    uncovered: results
+      .filter((_, index) => !(target & (1 << index)))
+      .map(result => ({
+        isbn: result.isbn,
+        ...(result.title && { title: result.title }),
+        heldAt: result.availability
+          .filter(entry => entry.status !== 'not_held')
+          .map(entry => ({ library: entry.library.formal, status: entry.status })),
+      })),
+    optimal: covers !== null,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * NdlSearchProvider のリクエストを、差し替えたHTTPクライアントとスケジューラーで検証する
+ */
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { Response } from 'node-fetch';
+
+import { NdlSearchProvider } from '../src/services/bookLookup.js';
+import { HttpClient, RequestScheduler } from '../src/services/requestScheduler.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+beforeAll(() => {
+  // 検索失敗のエラーログをテストの出力から除く
+  setLogLevel('error');
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+const RSS = `<rss><channel><item>
+<dc:title>ノルウェイの森 上</dc:title>
+<author>村上春樹</author>
+<dc:identifier xsi:type="dcndl:ISBN">4-06-274868-1</dc:identifier>
+</item></channel></rss>`;
+
+/**
+ * シグナルが中断されるまで応答しないHTTPクライアント
+ */
+const hangingClient: HttpClient = (_url, { signal }) => new Promise((_resolve, reject) => {
+  const abort = () => reject(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' }));
+  if (signal?.aborted) {
+    abort();
+  }
+  signal?.addEventListener('abort', abort);
+});
+
+function schedulerWith(httpClient: HttpClient): RequestScheduler {
+  return new RequestScheduler({ requestsPerSecond: 1000, maxRetries: 0, retryBaseDelayMs: 5, httpClient });
+}
+
+describe('NdlSearchProvider', () => {
+  it('sends the search through the scheduler and parses the candidates', async () => {
+    const urls: string[] = [];
+    const provider = new NdlSearchProvider({
+      scheduler: schedulerWith(async url => {
+        urls.push(url);
+        return new Response(RSS, { status: 200 });
+      }),
+    });
+
+    const candidates = await provider.search({ title: 'ノルウェイの森', limit: 2 });
+
+    expect(urls).toHaveLength(1);
+    expect(new URL(urls[0]).searchParams.get('cnt')).toBe('8');
+    expect(candidates).toEqual([{ isbn: '9784062748681', title: 'ノルウェイの森 上', author: '村上春樹' }]);
+  });
+
+  it('stops waiting when the caller cancels the search', async () => {
+    const provider = new NdlSearchProvider({ scheduler: schedulerWith(hangingClient) });
+    const controller = new AbortController();
+
+    const search = provider.search({ keyword: '村上春樹' }, { signal: controller.signal });
+    controller.abort();
+
+    await expect(search).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+
+  it('gives up on a request that does not answer within the timeout', async () => {
+    const provider = new NdlSearchProvider({ scheduler: schedulerWith(hangingClient), timeoutMs: 20 });
+
+    await expect(provider.search({ keyword: '村上春樹' })).rejects.toMatchObject({ code: 'UPSTREAM_NETWORK_ERROR', retryable: true });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * 蔵書検索結果の書き出し（CSV・Markdown・iCalendar）の書式を検証する
+ */
+import { describe, expect, it } from '@jest/globals';
+
+import { LibraryInfo } from '../src/types/calil.js';
+import { ExportableResult, exportResults, toExportableResults } from '../src/utils/exportFormats.js';
+
+const library = {
+  libid: '100001',
+  formal: '八千代市立中央図書館',
+  systemid: 'Chiba_Yachiyo',
+  address: '千葉県八千代市村上南1-1-1',
+  geocode: '140.1,35.7',
+  url_pc: 'https://www.library.yachiyo.chiba.jp/',
+} as LibraryInfo;
+
+function result(title: string, status: 'available' | 'on_loan' = 'available'): ExportableResult {
+  return {
+    isbn: '9784101001616',
+    title,
+    availability: [{ library, status, statusLabel: status === 'available' ? '貸出可' : '貸出中' }],
+  };
+}
+
+describe('exportResults', () => {
+  it('quotes CSV fields and escapes Markdown table cells', () => {
+    const title = '本の題名, "副題" | 第1巻';
+
+    expect(exportResults([result(title)], 'csv').content.split('\r\n')[1])
+      .toMatch(/^9784101001616,"本の題名, ""副題"" \| 第1巻",available,/);
+    expect(exportResults([result(title)], 'markdown').content).toContain('| 本の題名, "副題" \\| 第1巻 | 9784101001616 |');
+  });
+
+  it('escapes and folds iCalendar lines at 75 octets', () => {
+    const { content, mimeType, fileName } = exportResults([result('長い書名'.repeat(10))], 'ics', {
+      visitDate: '2026-12-31',
+      now: new Date(Date.UTC(2026, 9, 18, 3, 4, 5)),
+    });
+    const lines = content.split('\r\n');
+
+    expect({ mimeType, fileName }).toEqual({ mimeType: 'text/calendar', fileName: 'availability-9784101001616.ics' });
+    expect(lines).toEqual(expect.arrayContaining(['DTSTAMP:20261018T030405Z', 'DTSTART;VALUE=DATE:20261231', 'DTEND;VALUE=DATE:20270101']));
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(content.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${'長い書名'.repeat(10)}（ISBN 9784101001616）: 貸出可\\nhttps://`);
+  });
+
+  it('only adds visit reminders for libraries where a book can be borrowed', () => {
+    expect(exportResults([result('人間失格', 'on_loan')], 'ics').content).not.toContain('BEGIN:VEVENT');
+  });
+});
+
+describe('toExportableResults', () => {
+  it('accepts single results, multi-book results and their JSON text', () => {
+    expect(toExportableResults(result('a'))).toHaveLength(1);
+    expect(toExportableResults(JSON.stringify({ results: [result('a'), result('b')] }))).toHaveLength(2);
+    expect(toExportableResults({ books: [] })).toBeNull();
+    expect(toExportableResults('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * 同梱の地名辞書による都道府県・市区町村名の正規化を検証する
+ */
+import { describe, expect, it } from '@jest/globals';
+
+import { listMunicipalities, matchCity, matchPrefecture } from '../src/utils/gazetteer.js';
+
+describe('matchPrefecture', () => {
+  it.each(['東京', '東京都', 'とうきょう', 'トウキョウ', 'Tokyo', 'Tōkyō-to', 'TOKYO'])('resolves %s to 東京都', input => {
+    expect(matchPrefecture(input)).toEqual({ status: 'resolved', area: { prefecture: '東京都' } });
+  });
+
+  it('suggests prefectures for a misspelled name', () => {
+    expect(matchPrefecture('Tokio')).toEqual({ status: 'unknown', suggestions: [{ prefecture: '東京都' }] });
+  });
+});
+
+describe('matchCity', () => {
+  it.each([
+    ['横浜', '神奈川県', '横浜市'],
+    ['yokohama', '神奈川県', '横浜市'],
+    ['Funabashi-shi', '千葉県', '船橋市'],
+    ['新宿', '東京都', '新宿区'],
+    ['神奈川県横浜市', '神奈川県', '横浜市'],
+    ['印旛郡酒々井町', '千葉県', '酒々井町'],
+    ['千葉市稲毛区', '千葉県', '千葉市稲毛区'],
+  ])('resolves %s nationwide', (input, prefecture, city) => {
+    expect(matchCity(input)).toEqual({ status: 'resolved', area: { prefecture, city } });
+  });
+
+  it('prefers the municipality in the given prefecture', () => {
+    expect(matchCity('横浜', '青森県')).toEqual({ status: 'resolved', area: { prefecture: '青森県', city: '横浜町' } });
+  });
+
+  it('lists the candidates of an ambiguous name', () => {
+    expect(matchCity('date')).toEqual({
+      status: 'ambiguous',
+      candidates: [{ prefecture: '北海道', city: '伊達市' }, { prefecture: '福島県', city: '伊達市' }],
+    });
+  });
+
+  it('suggests the same name in another prefecture', () => {
+    expect(matchCity('横浜市', '千葉県')).toEqual({ status: 'unknown', suggestions: [{ prefecture: '神奈川県', city: '横浜市' }] });
+  });
+});
+
+describe('listMunicipalities', () => {
+  it('covers every municipality including the special wards of Tokyo', () => {
+    expect(listMunicipalities()).toHaveLength(1741);
+    expect(listMunicipalities('東京都').filter(area => area.city?.endsWith('区'))).toHaveLength(23);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * テスト用のCalil APIモックサーバー
+ *
+ * 記録済みのフィクスチャ（test/fixtures/calil）をもとに、図書館API (/library) と
+ * 蔵書検索API (/check) を再現する。蔵書検索はセッションを発行し、pendingRounds で指定した回数だけ
+ * 図書館システムを Running のまま返す（continue: 1）ことで、ポーリングの流れを再現する。
+ */
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+
+import { distanceKm, parseGeocode } from '../src/utils/geo.js';
+
+/**
+ * 蔵書検索APIのフィクスチャ
+ */
+export interface CheckFixture {
+  /** 図書館システムIDごとに、何回目のポーリングまで Running を返すか */
+  pendingRounds: { [systemid: string]: number };
+  /** 検索に失敗する（status: Error を返す）図書館システムID */
+  errorSystems?: string[];
+  /** ISBN・図書館システムIDごとの蔵書状況 */
+  holdings: {
+    [isbn: string]: {
+      [systemid: string]: { libkey: { [libkey: string]: string }; reserveurl?: string };
+    };
+  };
+}
+
+/**
+ * モックサーバーのフィクスチャ
+ */
+export interface CalilFixtures {
+  libraries: Record<string, unknown>[];
+  check: CheckFixture;
+}
+
+/**
+ * モックサーバーが受け付けたリクエスト
+ */
+export interface RecordedRequest {
+  path: string;
+  params: Record<string, string>;
+}
+
+export interface MockCalilServer {
+  /** サーバーのURL（例: http://127.0.0.1:12345） */
+  url: string;
+  /** 受け付けたリクエスト */
+  requests: RecordedRequest[];
+  /** 次のリクエストから times 回、指定したステータスでエラーを返す */
+  failNext(path: '/library' | '/check', status: number, times?: number, retryAfter?: string): void;
+  close(): Promise<void>;
+}
+
+/**
+ * test/fixtures/calil のフィクスチャを読み込む
+ */
+export function loadCalilFixtures(): CalilFixtures {
+  const read = (name: string) => JSON.parse(readFileSync(new URL(`./fixtures/calil/${name}`, import.meta.url), 'utf-8'));
+  return {
+    libraries: read('libraries.json'),
+    check: read('check.json'),
+  };
+}
+
+/**
+ * 図書館APIの検索条件で図書館を絞り込む
+ */
+function findLibraries(libraries: Record<string, unknown>[], params: Record<string, string>): Record<string, unknown>[] {
+  if (params.geocode) {
+    const origin = parseGeocode(params.geocode);
+    if (!origin) {
+      return [];
+    }
+    return libraries
+      .map(library => ({ library, distance: distanceKm(origin, parseGeocode(String(library.geocode))!) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, params.limit ? Number(params.limit) : undefined)
+      .map(({ library }) => library);
+  }
+
+  return libraries.filter(library =>
+    (!params.pref || library.pref === params.pref)
+    && (!params.city || library.city === params.city)
+    && (!params.systemid || library.systemid === params.systemid));
+}
+
+/**
+ * モックサーバーを起動する
+ */
+export async function startMockCalilServer(fixtures: CalilFixtures = loadCalilFixtures()): Promise<MockCalilServer> {
+  const requests: RecordedRequest[] = [];
+  const failures: { path: string; status: number; retryAfter?: string }[] = [];
+  const sessions = new Map<string, { isbns: string[]; systemids: string[]; round: number }>();
+
+  /**
+   * セッションの現在の蔵書検索結果を組み立てる
+   */
+  const checkResponse = (sessionId: string) => {
+    const session = sessions.get(sessionId)!;
+    const books: Record<string, Record<string, unknown>> = {};
+    let running = false;
+
+    for (const isbn of session.isbns) {
+      books[isbn] = {};
+      for (const systemid of session.systemids) {
+        if (session.round < (fixtures.check.pendingRounds[systemid] ?? 0)) {
+          running = true;
+          books[isbn][systemid] = { status: 'Running', libkey: {} };
+          continue;
+        }
+        if (fixtures.check.errorSystems?.includes(systemid)) {
+          books[isbn][systemid] = { status: 'Error', libkey: {} };
+          continue;
+        }
+        const holding = fixtures.check.holdings[isbn]?.[systemid];
+        books[isbn][systemid] = {
+          status: 'OK',
+          libkey: holding?.libkey ?? {},
+          ...(holding?.reserveurl && { reserveurl: holding.reserveurl }),
+        };
+      }
+    }
+
+    return { session: sessionId, continue: running ? 1 : 0, books };
+  };
+
+  const handle = (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams.entries());
+    requests.push({ path: url.pathname, params });
+
+    const failureIndex = failures.findIndex(failure => failure.path === url.pathname);
+    if (failureIndex >= 0) {
+      const [failure] = failures.splice(failureIndex, 1);
+      res.writeHead(failure.status, failure.retryAfter ? { 'Retry-After': failure.retryAfter } : {});
+      res.end('error');
+      return;
+    }
+
+    if (url.pathname === '/library') {
+      // 図書館APIはJSONP形式で返す
+      res.writeHead(200, { 'Content-Type': 'text/javascript' });
+      res.end(`callback(${JSON.stringify(findLibraries(fixtures.libraries, params))});`);
+      return;
+    }
+
+    if (url.pathname === '/check') {
+      if (params.session) {
+        const session = sessions.get(params.session);
+        if (!session) {
+          res.writeHead(404);
+          res.end('unknown session');
+          return;
+        }
+        // ポーリングの結果はJSONで返す
+        session.round++;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(checkResponse(params.session)));
+        return;
+      }
+
+      const sessionId = `session-${sessions.size + 1}`;
+      sessions.set(sessionId, {
+        isbns: (params.isbn ?? '').split(','),
+        systemids: (params.systemid ?? '').split(','),
+        round: 0,
+      });
+      // 最初の結果はJSONPで返す
+      res.writeHead(200, { 'Content-Type': 'text/javascript' });
+      res.end(`callback(${JSON.stringify(checkResponse(sessionId))});`);
+      return;
+    }
+
+    res.writeHead(404);
+    res.end('not found');
+  };
+
+  const server: Server = createServer(handle);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    failNext(path, status, times = 1, retryAfter) {
+      for (let i = 0; i < times; i++) {
+        failures.push({ path, status, retryAfter });
+      }
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * 読書リストの形式の判定と、各形式からの書名・著者・ISBNの取り出しを検証する
+ */
+import { describe, expect, it } from '@jest/globals';
+
+import { detectReadingListFormat, parseReadingList } from '../src/utils/readingList.js';
+
+describe('parseReadingList', () => {
+  it('reads the columns of a CSV by their header names', () => {
+    const content = '﻿"タイトル","著者","ISBN/ASIN","読了日"\n"人間失格","太宰治","4101001618","2024/01/01"\n"ダミー, 本","誰か","9784101001617",""\n';
+
+    const { format, entries } = parseReadingList(content);
+
+    expect(format).toBe('bookmeter');
+    expect(entries).toEqual([
+      { position: 1, title: '人間失格', author: '太宰治', isbn: '9784101001616', rejected: [] },
+      { position: 2, title: 'ダミー, 本', author: '誰か', rejected: [expect.objectContaining({ reason: 'INVALID_CHECKSUM' })] },
+    ]);
+  });
+
+  it('reads a Booklog export without a header row', () => {
+    const content = [
+      '1,4101001618,9784101001616,本,5,読み終わった,,,,2024-01-01 10:00:00,2024-01-05 00:00:00,人間失格,太宰治,新潮社,2006,文学,185,400',
+      '1,4062748681,,本,0,積読,,,,2024-02-01 10:00:00,,ノルウェイの森 上,村上春樹,講談社,2004,文学,302,600',
+    ].join('\n');
+
+    expect(detectReadingListFormat(content)).toBe('booklog');
+    expect(parseReadingList(content).entries.map(entry => [entry.title, entry.isbn])).toEqual([
+      ['人間失格', '9784101001616'],
+      ['ノルウェイの森 上', '9784062748681'],
+    ]);
+  });
+
+  it('reads BibTeX and RIS entries', () => {
+    const bibtex = '@book{dazai,\n  title = {人間{失格}},\n  author = "太宰 治 and 誰か",\n  isbn = {978-4-10-100161-6}\n}\n@comment{ignored}';
+    const ris = 'TY  - BOOK\r\nTI  - ノルウェイの森 上\r\nAU  - 村上, 春樹\r\nSN  - 4062748681\r\nER  - \r\n';
+
+    expect(parseReadingList(bibtex)).toEqual({
+      format: 'bibtex',
+      entries: [{ position: 1, title: '人間失格', author: '太宰 治; 誰か', isbn: '9784101001616', rejected: [] }],
+    });
+    expect(parseReadingList(ris)).toEqual({
+      format: 'ris',
+      entries: [{ position: 1, title: 'ノルウェイの森 上', author: '村上, 春樹', isbn: '9784062748681', rejected: [] }],
+    });
+  });
+
+  it('treats lines without an ISBN as titles in plain text', () => {
+    expect(parseReadingList('ISBN 978-4-10-100161-6 人間失格\nノルウェイの森\n').entries).toEqual([
+      { position: 1, title: '人間失格', isbn: '9784101001616', rejected: [] },
+      { position: 2, title: 'ノルウェイの森', rejected: [] },
+    ]);
+  });
+});
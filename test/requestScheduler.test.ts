@@ -0,0 +1,125 @@
+/**
+ * RequestScheduler のレート制限・再試行・相乗りを、差し替えたHTTPクライアントで検証する
+ */
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { Response } from 'node-fetch';
+
+import { HttpClient, RequestScheduler } from '../src/services/requestScheduler.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+beforeAll(() => {
+  // 再試行の警告ログをテストの出力から除く
+  setLogLevel('error');
+});
+
+/**
+ * 指定したステータスを順に返すHTTPクライアント
+ */
+function statusSequence(statuses: number[], headers: Record<string, string> = {}): { client: HttpClient; calls: number[] } {
+  const calls: number[] = [];
+  const client: HttpClient = async () => {
+    calls.push(Date.now());
+    const status = statuses[Math.min(calls.length - 1, statuses.length - 1)];
+    return new Response('body', { status, headers });
+  };
+  return { client, calls };
+}
+
+describe('RequestScheduler.fetch', () => {
+  it('spaces requests according to requestsPerSecond', async () => {
+    const { client, calls } = statusSequence([200]);
+    const scheduler = new RequestScheduler({ requestsPerSecond: 20, maxRetries: 0, retryBaseDelayMs: 10, httpClient: client });
+
+    await Promise.all([scheduler.fetch('http://calil.test/a'), scheduler.fetch('http://calil.test/b'), scheduler.fetch('http://calil.test/c')]);
+
+    expect(calls).toHaveLength(3);
+    expect(calls[2] - calls[0]).toBeGreaterThanOrEqual(90);
+  });
+
+  it('retries 5xx responses and returns the first success', async () => {
+    const { client, calls } = statusSequence([503, 502, 200]);
+    const scheduler = new RequestScheduler({ requestsPerSecond: 1000, maxRetries: 2, retryBaseDelayMs: 5, httpClient: client });
+
+    const response = await scheduler.fetch('http://calil.test/check');
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('returns the last response once retries are exhausted', async () => {
+    const { client, calls } = statusSequence([429], { 'Retry-After': '0' });
+    const scheduler = new RequestScheduler({ requestsPerSecond: 1000, maxRetries: 1, retryBaseDelayMs: 5, httpClient: client });
+
+    const response = await scheduler.fetch('http://calil.test/check');
+
+    expect(response.status).toBe(429);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not retry client errors', async () => {
+    const { client, calls } = statusSequence([400]);
+    const scheduler = new RequestScheduler({ requestsPerSecond: 1000, maxRetries: 3, retryBaseDelayMs: 5, httpClient: client });
+
+    const response = await scheduler.fetch('http://calil.test/check');
+
+    expect(response.status).toBe(400);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('RequestScheduler.coalesce', () => {
+  const scheduler = () => new RequestScheduler({ requestsPerSecond: 1000, maxRetries: 0, retryBaseDelayMs: 5 });
+
+  it('shares an in-flight task between callers with the same key', async () => {
+    const instance = scheduler();
+    let runs = 0;
+    const task = async () => {
+      runs++;
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return runs;
+    };
+
+    const results = await Promise.all([instance.coalesce('key', task), instance.coalesce('key', task), instance.coalesce('other', task)]);
+
+    expect(results[0]).toBe(results[1]);
+    expect(runs).toBe(2);
+  });
+
+  it('forwards events to every caller', async () => {
+    const instance = scheduler();
+    const received: string[] = [];
+    const task = async (_signal: AbortSignal, emit: (event: string) => void) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      emit('progress');
+    };
+
+    await Promise.all([
+      instance.coalesce('key', task, { onEvent: event => received.push(`a:${event}`) }),
+      instance.coalesce('key', task, { onEvent: event => received.push(`b:${event}`) }),
+    ]);
+
+    expect(received.sort()).toEqual(['a:progress', 'b:progress']);
+  });
+
+  it('keeps running while another caller is waiting and aborts when everyone cancels', async () => {
+    const instance = scheduler();
+    let sharedSignal: AbortSignal | undefined;
+    const task = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>(resolve => setTimeout(() => resolve('done'), 30));
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = instance.coalesce('key', task, { signal: first.signal });
+    const secondResult = instance.coalesce('key', task, { signal: second.signal });
+    first.abort();
+
+    await expect(firstResult).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(sharedSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondResult).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(sharedSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,896 @@
+/**
+ * setupCallToolHandler の各ツールを、モックCalilサーバーと記録済みフィクスチャに対して検証する
+ */
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Progress, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { DEFAULT_CONFIG, ServerConfig } from '../src/config.js';
+import { createConfiguredServer, createLibraryCache } from '../src/server.js';
+import { FixtureBookLookupProvider } from '../src/services/bookLookup.js';
+import { LibraryCache } from '../src/services/libraryCache.js';
+import { WatchCheckResult } from '../src/services/watchlist.js';
+import { BookCandidate } from '../src/types/bookLookup.js';
+import { AvailabilitySummary, BookAvailabilityResult, LibraryAvailability, LibraryInfo, NearbyLibraryInfo } from '../src/types/calil.js';
+import { IsbnRejection, isbn10To13 } from '../src/utils/isbn.js';
+import { setLogLevel } from '../src/utils/logger.js';
+import { VisitPlan } from '../src/utils/visitPlanner.js';
+import { CalilFixtures, MockCalilServer, loadCalilFixtures, startMockCalilServer } from './mockCalilServer.js';
+
+const NINGEN_SHIKKAKU = '9784101001616';
+const NORWEGIAN_WOOD_1 = '9784062748681';
+
+beforeAll(() => {
+  // エラーのケースではサーバーがエラーログを出力するため、テストの出力から除く
+  setLogLevel('error');
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+interface Session {
+  mock: MockCalilServer;
+  client: Client;
+  /**
+   * ツールを呼び出し、本文（JSONの場合は解析結果）と構造化された結果を返す
+   * 本文の内容を調べるテストは、調べる部分の形を T で指定する
+   */
+  callTool<T extends object = object>(
+    name: string,
+    args?: Record<string, unknown>,
+    onprogress?: (progress: Progress) => void
+  ): Promise<{ isError: boolean; body: T & Record<string, unknown>; text: string; structuredContent?: unknown }>;
+}
+
+/** 複数のISBNを検索した search_books の結果 */
+interface BooksResult {
+  results: BookAvailabilityResult[];
+}
+
+/** 図書館一覧を返すツールの結果 */
+interface LibraryList {
+  libraries: (LibraryInfo & { distanceKm?: number; preferred?: boolean })[];
+}
+
+/** エラーの結果 */
+interface ErrorBody<D> {
+  code: string;
+  details: D;
+}
+
+/** watch_book の結果 */
+interface WatchResult {
+  created: boolean;
+  watch: { id: string; uri: string; libraries: unknown[] };
+  summary: AvailabilitySummary;
+}
+
+let sessions: Session[] = [];
+
+/**
+ * モックサーバーとMCPサーバーを起動し、クライアントを接続する
+ * @param libraryCache 他のセッションと共有する図書館一覧のキャッシュ
+ */
+async function connect(
+  overrides: Partial<ServerConfig> = {},
+  fixtures?: CalilFixtures,
+  libraryCache?: LibraryCache<LibraryInfo[]>
+): Promise<Session> {
+  const mock = await startMockCalilServer(fixtures);
+  const config: ServerConfig = {
+    ...DEFAULT_CONFIG,
+    apiKey: 'test-key',
+    libraryApiUrl: `${mock.url}/library`,
+    checkApiUrl: `${mock.url}/check`,
+    pollIntervalMs: 10,
+    maxPollIntervalMs: 20,
+    pollTimeoutMs: 2000,
+    requestsPerSecond: 1000,
+    retryBaseDelayMs: 10,
+    cache: { ...DEFAULT_CONFIG.cache },
+    logLevel: 'error',
+    bookLookupFixturePath: fileURLToPath(new URL('./fixtures/books.json', import.meta.url)),
+    ...overrides,
+  };
+
+  const server = createConfiguredServer(config, undefined, undefined, undefined, undefined, libraryCache);
+  const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+  const session: Session = {
+    mock,
+    client,
+    async callTool(name, args = {}, onprogress) {
+      const result = await client.callTool({ name, arguments: args }, undefined, { onprogress });
+      const [content] = result.content as { type: string; text: string }[];
+      // CSV などに書き出した結果は本文がJSONではない
+      const body = /^[[{]/.test(content.text) ? JSON.parse(content.text) : undefined;
+      return { isError: result.isError === true, body, text: content.text, structuredContent: result.structuredContent };
+    },
+  };
+  sessions.push(session);
+  return session;
+}
+
+afterEach(async () => {
+  for (const session of sessions) {
+    await session.client.close();
+    await session.mock.close();
+  }
+  sessions = [];
+});
+
+/**
+ * 蔵書検索APIへの新規検索（ポーリングを除く）のリクエスト
+ */
+function checkRequests(mock: MockCalilServer) {
+  return mock.requests.filter(request => request.path === '/check' && !request.params.session);
+}
+
+describe('search_books', () => {
+  it('checks a single ISBN in a city and returns library details', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool<BookAvailabilityResult>('search_books', { isbn: '978-4-10-100161-6', prefecture: '千葉県', city: '八千代市' });
+
+    expect(isError).toBe(false);
+    expect(body.isbn).toBe(NINGEN_SHIKKAKU);
+    expect(body.availability).toHaveLength(2);
+    expect(body.availability[0]).toMatchObject({
+      library: { formal: '八千代市立中央図書館', tel: '047-483-7891', libkey: '中央' },
+      status: 'available',
+      statusLabel: '貸出可',
+      reserveUrl: `https://www.library.yachiyo.chiba.jp/opac/reserve?isbn=${NINGEN_SHIKKAKU}`,
+    });
+    expect(body.availability[1]).toMatchObject({ library: { libkey: '大和田' }, status: 'on_loan' });
+    expect(body.summary).toMatchObject({
+      libraryCount: 2,
+      availableCount: 1,
+      availableAt: ['八千代市立中央図書館'],
+      onLoanAt: ['八千代市立大和田図書館'],
+    });
+    expect(body.raw.Chiba_Yachiyo.status).toBe('OK');
+    expect(body.libraryCache).toMatchObject({ hit: false, source: 'api' });
+  });
+
+  it('returns the result as structured content alongside the JSON text', async () => {
+    const { callTool } = await connect();
+
+    const { body, structuredContent } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市' });
+
+    expect(structuredContent).toEqual(body);
+  });
+
+  it('extracts ISBNs from the query and checks several books in one session', async () => {
+    const { callTool, mock } = await connect();
+
+    const { body } = await callTool<BooksResult>('search_books', {
+      query: `ISBN ${NINGEN_SHIKKAKU} と 4062748681`,
+      prefecture: '千葉県',
+      city: '八千代市',
+    });
+
+    expect(body.results.map(result => result.isbn)).toEqual([NINGEN_SHIKKAKU, NORWEGIAN_WOOD_1]);
+    expect(body.results[1].availability).toEqual([
+      expect.objectContaining({ library: expect.objectContaining({ libkey: '大和田' }), status: 'reserved' }),
+    ]);
+    expect(checkRequests(mock)).toHaveLength(1);
+  });
+
+  it('keeps lending statuses Calil does not document as the label', async () => {
+    const fixtures = loadCalilFixtures();
+    fixtures.check.holdings[NINGEN_SHIKKAKU].Chiba_Yachiyo.libkey['中央'] = '取寄中';
+    const { callTool } = await connect({}, fixtures);
+
+    const { body } = await callTool<BookAvailabilityResult>('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市' });
+
+    expect(body.availability[0]).toMatchObject({ library: { formal: '八千代市立中央図書館' }, status: 'unknown', statusLabel: '取寄中' });
+    expect(body.systems[0].libraries[0]).toMatchObject({ libkey: '中央', status: 'unknown', statusLabel: '取寄中' });
+    expect(body.summary.byStatus.unknown).toBe(1);
+  });
+
+  it('resolves ISBNs from a title with the bibliographic lookup', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool<BooksResult & { lookup: { provider: string; candidates: BookCandidate[] } }>('search_books', { title: 'ノルウェイの森', max_candidates: 2, prefecture: '千葉県', city: '八千代市' });
+
+    expect(isError).toBe(false);
+    expect(body.lookup.provider).toBe('fixture');
+    expect(body.lookup.candidates).toHaveLength(2);
+    expect(body.results[0]).toMatchObject({ isbn: NORWEGIAN_WOOD_1, title: 'ノルウェイの森 上' });
+  });
+
+  it('looks up the given title even when the query has a number that is not an ISBN', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool<BookAvailabilityResult & { rejectedIsbns: IsbnRejection[] }>('search_books', {
+      query: '047-483-1151 の図書館で借りたい', title: '人間失格', prefecture: '千葉県', city: '八千代市'
+    });
+
+    expect(isError).toBe(false);
+    expect(body.isbn).toBe(NINGEN_SHIKKAKU);
+    expect(body.rejectedIsbns[0]).toMatchObject({ reason: 'INVALID_CHECKSUM' });
+  });
+
+  it('rejects more than 20 ISBNs in a single search', async () => {
+    const { callTool, mock } = await connect();
+    const isbnList = Array.from({ length: 21 }, (_, index) => isbn10To13(`4000000${String(index).padStart(2, '0')}0`));
+
+    const { isError, body } = await callTool('search_books', { isbn_list: isbnList, prefecture: '千葉県', city: '八千代市' });
+
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({ code: 'INVALID_ARGUMENT', details: { books: 21 } });
+    expect(checkRequests(mock)).toHaveLength(0);
+  });
+
+  it('rejects max_candidates outside 1 to 10', async () => {
+    const { callTool } = await connect();
+
+    const results = await Promise.all([0, 2.5, 1000].map(max_candidates =>
+      callTool('search_books', { title: 'ノルウェイの森', max_candidates, prefecture: '千葉県', city: '八千代市' })));
+
+    expect(results.map(result => result.body.code)).toEqual(['INVALID_ARGUMENT', 'INVALID_ARGUMENT', 'INVALID_ARGUMENT']);
+  });
+
+  it('returns BOOK_NOT_FOUND when the lookup finds nothing', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('search_books', { title: '存在しない本', prefecture: '千葉県', city: '八千代市' });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('BOOK_NOT_FOUND');
+  });
+
+  it('searches a whole prefecture and polls until every system finishes', async () => {
+    const { callTool, mock } = await connect();
+    const progress: Progress[] = [];
+
+    const { body } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県' }, value => progress.push(value));
+
+    expect(body.area).toEqual({ prefecture: '千葉県' });
+    expect(body.libraryCount).toBe(5);
+    expect(body.systemids).toEqual(['Chiba_Yachiyo', 'Chiba_Funabashi', 'Univ_Chiba']);
+    expect(body.partial).toBeUndefined();
+    expect(body.availability).toContainEqual(expect.objectContaining({ library: expect.objectContaining({ formal: '船橋市西図書館' }), status: 'unknown', statusLabel: '蔵書あり' }));
+    expect(mock.requests.some(request => request.path === '/check' && request.params.session)).toBe(true);
+    expect(progress.length).toBeGreaterThan(0);
+  });
+
+  it('searches several cities at once', async () => {
+    const { callTool, mock } = await connect();
+
+    const { body } = await callTool<BookAvailabilityResult>('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', cities: ['八千代市', '船橋市'] });
+
+    expect(body.area).toEqual({ prefecture: '千葉県', cities: ['八千代市', '船橋市'] });
+    expect(body.systemids).toEqual(['Chiba_Yachiyo', 'Chiba_Funabashi']);
+    expect(body.availability.map(entry => entry.library.formal)).toEqual(['八千代市立中央図書館', '八千代市立大和田図書館', '船橋市西図書館']);
+    expect(mock.requests.filter(request => request.path === '/library')).toHaveLength(2);
+  });
+
+  it('searches explicit library systems', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool('search_books', { isbn: NORWEGIAN_WOOD_1, systemid: ['Univ_Chiba'] });
+
+    expect(body.area).toEqual({ systemids: ['Univ_Chiba'] });
+    expect(body.availability).toEqual([
+      expect.objectContaining({ library: expect.objectContaining({ formal: '千葉大学附属図書館' }), status: 'available' }),
+    ]);
+  });
+
+  it('searches the libraries nearest to a location', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool<{ availability: (LibraryAvailability & { distanceKm: number })[] }>('search_books', { isbn: NINGEN_SHIKKAKU, latitude: 35.7220, longitude: 140.1020, nearest: 2 });
+
+    expect(body.latitude).toBe(35.7220);
+    expect(body.availability).toHaveLength(2);
+    expect(body.availability[0].library.formal).toBe('八千代市立中央図書館');
+    expect(body.availability[0].distanceKm).toBeLessThan(body.availability[1].distanceKm);
+  });
+
+  it('returns partial results when polling does not finish in time', async () => {
+    const fixtures = loadCalilFixtures();
+    fixtures.check.pendingRounds = { Chiba_Funabashi: 1000 };
+    const { callTool } = await connect({ pollTimeoutMs: 100 }, fixtures);
+
+    const { isError, body } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', cities: ['八千代市', '船橋市'] });
+
+    expect(isError).toBe(false);
+    expect(body.partial).toBe(true);
+    expect(body.pendingSystems).toEqual(['Chiba_Funabashi']);
+    expect(body.availability).toHaveLength(2);
+  });
+
+  it('groups results by library system including failed systems and unknown branches', async () => {
+    const fixtures = loadCalilFixtures();
+    fixtures.check.errorSystems = ['Chiba_Funabashi'];
+    fixtures.check.holdings[NINGEN_SHIKKAKU].Chiba_Yachiyo.libkey['移動図書館'] = '貸出可';
+    const { callTool } = await connect({}, fixtures);
+
+    const { body } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県' });
+
+    expect(body.failedSystems).toEqual(['Chiba_Funabashi']);
+    expect(body.systems).toEqual([
+      {
+        systemid: 'Chiba_Yachiyo',
+        systemname: '千葉県八千代市',
+        status: 'OK',
+        reserveUrl: `https://www.library.yachiyo.chiba.jp/opac/reserve?isbn=${NINGEN_SHIKKAKU}`,
+        libraries: [
+          expect.objectContaining({ libkey: '中央', status: 'available' }),
+          expect.objectContaining({ libkey: '大和田', status: 'on_loan' }),
+        ],
+        unmatchedLibraries: [{ libkey: '移動図書館', status: 'available', statusLabel: '貸出可' }],
+      },
+      expect.objectContaining({ systemid: 'Chiba_Funabashi', status: 'Error', libraries: [], unmatchedLibraries: [] }),
+      expect.objectContaining({ systemid: 'Univ_Chiba', status: 'OK', libraries: [], unmatchedLibraries: [] }),
+    ]);
+    expect(body.availability).toHaveLength(2);
+  });
+
+  it('rejects invalid ISBNs with their reasons', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool<ErrorBody<{ rejectedIsbns: IsbnRejection[] }>>('search_books', { isbn: '9784101001617', prefecture: '千葉県', city: '八千代市' });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('INVALID_ISBN');
+    expect(body.details.rejectedIsbns[0].reason).toBe('INVALID_CHECKSUM');
+  });
+
+  it('requires an area', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('INVALID_ARGUMENT');
+  });
+
+  it('requires an area before looking up a title', async () => {
+    const { callTool } = await connect();
+    const search = jest.spyOn(FixtureBookLookupProvider.prototype, 'search');
+
+    const { isError, body } = await callTool('search_books', { title: '人間失格' });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('INVALID_ARGUMENT');
+    expect(search).not.toHaveBeenCalled();
+    search.mockRestore();
+  });
+
+  it('retries server errors from Calil', async () => {
+    const { callTool, mock } = await connect();
+    mock.failNext('/check', 503);
+
+    const { isError, body } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市' });
+
+    expect(isError).toBe(false);
+    expect(body.availability).toHaveLength(2);
+    expect(checkRequests(mock)).toHaveLength(2);
+  });
+
+  it('reports rate limiting once retries are exhausted', async () => {
+    const { callTool, mock } = await connect({ maxRetries: 1 });
+    mock.failNext('/library', 429, 2, '0');
+
+    const { isError, body } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市' });
+
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({ code: 'UPSTREAM_RATE_LIMITED', retryable: true });
+  });
+});
+
+describe('get_libraries_by_prefecture', () => {
+  it('pages through the libraries of a prefecture', async () => {
+    const { callTool } = await connect();
+
+    const first = await callTool('get_libraries_by_prefecture', { prefecture: '千葉県', limit: 2 });
+    const second = await callTool('get_libraries_by_prefecture', { prefecture: '千葉県', limit: 2, cursor: first.body.nextCursor });
+
+    expect(first.body).toMatchObject({ prefecture: '千葉県', total: 5, offset: 0, limit: 2, nextCursor: '2' });
+    expect(first.body.libraries).toHaveLength(2);
+    expect(second.body.offset).toBe(2);
+    expect(second.body.cache).toMatchObject({ hit: true, source: 'memory' });
+  });
+
+  it('filters libraries by category', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool<LibraryList>('get_libraries_by_prefecture', { prefecture: '千葉県', category: ['UNIV'] });
+
+    expect(body.total).toBe(1);
+    expect(body.libraries[0].systemid).toBe('Univ_Chiba');
+  });
+
+  it('rejects an invalid limit', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('get_libraries_by_prefecture', { prefecture: '千葉県', limit: 0 });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('INVALID_ARGUMENT');
+  });
+});
+
+describe('get_libraries_by_city', () => {
+  it('lists the libraries of a city', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool<LibraryList>('get_libraries_by_city', { prefecture: '千葉県', city: '船橋市' });
+
+    expect(body).toMatchObject({ prefecture: '千葉県', city: '船橋市', total: 2 });
+    expect(body.libraries.map(library => library.libid)).toEqual(['104520', '104521']);
+  });
+
+  it('returns an empty list for an area without libraries', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('get_libraries_by_city', { prefecture: '千葉県', city: '銚子市' });
+
+    expect(isError).toBe(false);
+    expect(body).toMatchObject({ total: 0, libraries: [] });
+  });
+
+  it('normalizes prefecture and city names written in kana or romaji', async () => {
+    const { callTool, mock } = await connect();
+
+    const { body } = await callTool('get_libraries_by_city', { prefecture: 'ちば', city: 'Funabashi-shi' });
+
+    expect(body).toMatchObject({ prefecture: '千葉県', city: '船橋市', total: 2 });
+    expect(mock.requests[0].params).toMatchObject({ pref: '千葉県', city: '船橋市' });
+  });
+
+  it('infers the prefecture from the city', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool('get_libraries_by_city', { city: '船橋' });
+
+    expect(body).toMatchObject({ prefecture: '千葉県', city: '船橋市', total: 2 });
+  });
+
+  it('suggests similar names for an unknown city', async () => {
+    const { callTool, mock } = await connect();
+
+    const { isError, body } = await callTool<ErrorBody<{ suggestions: unknown[] }>>('get_libraries_by_city', { prefecture: '千葉県', city: '八千世市' });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('UNKNOWN_AREA');
+    expect(body.details.suggestions).toEqual([{ prefecture: '千葉県', city: '八千代市' }]);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it('reports the candidates of an ambiguous city', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool<ErrorBody<{ candidates: unknown[] }>>('search_books', { isbn: NINGEN_SHIKKAKU, city: '府中' });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('AMBIGUOUS_AREA');
+    expect(body.details.candidates).toEqual([
+      { prefecture: '東京都', city: '府中市' },
+      { prefecture: '広島県', city: '府中市' },
+    ]);
+  });
+});
+
+describe('get_library_details', () => {
+  it('finds a library by a slightly different name and lists the other branches of its system', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('get_library_details', { name: '八千代 中央図書館', prefecture: 'chiba' });
+
+    expect(isError).toBe(false);
+    expect(body.library).toMatchObject({
+      libid: '104688',
+      formal: '八千代市立中央図書館',
+      post: '276-0028',
+      tel: '047-483-7891',
+      geocode: '140.1031657,35.7226587',
+      isil: 'JP-1000720',
+      faid: null,
+      url_pc: 'https://www.library.yachiyo.chiba.jp/',
+      uri: 'calil://library/104688',
+    });
+    expect(body.system).toEqual({ systemid: 'Chiba_Yachiyo', systemname: '千葉県八千代市', libraryCount: 2, uri: 'calil://system/Chiba_Yachiyo' });
+    expect(body.siblings).toEqual([expect.objectContaining({ libid: '104689', formal: '八千代市立大和田図書館', libkey: '大和田' })]);
+  });
+
+  it('looks up libraries by libkey within a system, and by ISIL among loaded libraries', async () => {
+    const { callTool } = await connect();
+
+    const byLibkey = await callTool<{ library: LibraryInfo }>('get_library_details', { systemid: 'Chiba_Funabashi', libkey: '西' });
+    const byIsil = await callTool<{ library: LibraryInfo }>('get_library_details', { isil: 'jp1000690' });
+
+    expect(byLibkey.body.library.formal).toBe('船橋市西図書館');
+    expect(byIsil.body.library.formal).toBe('船橋市中央図書館');
+  });
+
+  it('reports ambiguous names and libraries that are not found', async () => {
+    const { callTool } = await connect();
+
+    const ambiguous = await callTool<ErrorBody<{ candidates: LibraryInfo[] }>>('get_library_details', { name: '中央図書館', prefecture: '千葉県' });
+    const missing = await callTool('get_library_details', { libid: '999999' });
+
+    expect(ambiguous.body.code).toBe('AMBIGUOUS_LIBRARY');
+    expect(ambiguous.body.details.candidates.map(candidate => candidate.formal)).toEqual(['八千代市立中央図書館', '船橋市中央図書館']);
+    expect(missing.body).toMatchObject({ code: 'LIBRARY_NOT_FOUND', details: { libid: '999999', searchedIn: { loaded: true } } });
+  });
+});
+
+describe('find_nearby_libraries', () => {
+  it('returns libraries within the radius ordered by distance', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool<{ libraries: NearbyLibraryInfo[] }>('find_nearby_libraries', { latitude: 35.6896, longitude: 139.7006, radius_km: 5 });
+
+    expect(body.libraries).toHaveLength(1);
+    expect(body.libraries[0]).toMatchObject({ formal: '新宿区立中央図書館' });
+    expect(body.libraries[0].distanceKm).toBeLessThan(5);
+  });
+
+  it('validates coordinates', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('find_nearby_libraries', { latitude: 135, longitude: 139.7 });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('INVALID_ARGUMENT');
+  });
+});
+
+describe('clear_library_cache', () => {
+  it('clears cached library lists so they are fetched again', async () => {
+    const { callTool, mock } = await connect();
+    await callTool('get_libraries_by_city', { prefecture: '千葉県', city: '八千代市' });
+
+    const { body } = await callTool('clear_library_cache', { prefecture: '千葉県' });
+    await callTool('get_libraries_by_city', { prefecture: '千葉県', city: '八千代市' });
+
+    expect(body).toEqual({ cleared: 1, prefecture: '千葉県', city: null });
+    expect(mock.requests.filter(request => request.path === '/library')).toHaveLength(2);
+  });
+
+  it('clears the cache shared with the other sessions', async () => {
+    const libraryCache = createLibraryCache(DEFAULT_CONFIG);
+    const first = await connect({}, undefined, libraryCache);
+    const second = await connect({}, undefined, libraryCache);
+    const libraryRequests = (mock: MockCalilServer) => mock.requests.filter(request => request.path === '/library');
+
+    await first.callTool('get_libraries_by_city', { prefecture: '千葉県', city: '八千代市' });
+    await second.callTool('get_libraries_by_city', { prefecture: '千葉県', city: '八千代市' });
+    expect(libraryRequests(second.mock)).toHaveLength(0);
+
+    await first.callTool('clear_library_cache', { prefecture: '千葉県' });
+    await second.callTool('get_libraries_by_city', { prefecture: '千葉県', city: '八千代市' });
+
+    expect(libraryRequests(first.mock)).toHaveLength(1);
+    expect(libraryRequests(second.mock)).toHaveLength(1);
+  });
+});
+
+describe('watchlist tools', () => {
+  it('records availability and reports lending status changes since the last check', async () => {
+    const fixtures = loadCalilFixtures();
+    const { callTool } = await connect({}, fixtures);
+
+    const { body: watched } = await callTool<WatchResult>('watch_book', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市' });
+    fixtures.check.holdings[NINGEN_SHIKKAKU].Chiba_Yachiyo.libkey['大和田'] = '貸出可';
+    const { body } = await callTool<{ changed: number; results: WatchCheckResult[] }>('check_watches');
+
+    expect(watched.created).toBe(true);
+    expect(watched.watch.libraries).toHaveLength(2);
+    expect(watched.summary.availableCount).toBe(1);
+    expect(body.changed).toBe(1);
+    expect(body.results[0]).toMatchObject({ id: watched.watch.id, firstCheck: false });
+    expect(body.results[0].changes).toEqual([
+      {
+        libid: '104689',
+        formal: '八千代市立大和田図書館',
+        from: { status: 'on_loan', statusLabel: '貸出中' },
+        to: { status: 'available', statusLabel: '貸出可' },
+      },
+    ]);
+  });
+
+  it('lists and removes watches', async () => {
+    const { callTool } = await connect();
+    const { body: watched } = await callTool<WatchResult>('watch_book', { isbn: NORWEGIAN_WOOD_1, title: 'ノルウェイの森 上', prefecture: '千葉県', city: '八千代市' });
+
+    const { body: listed } = await callTool('list_watches');
+    const { body: removed } = await callTool<{ removed: { id: string } }>('unwatch_book', { id: watched.watch.id });
+    const { isError, body: missing } = await callTool('unwatch_book', { id: watched.watch.id });
+
+    expect(listed.watches).toEqual([expect.objectContaining({ isbn: NORWEGIAN_WOOD_1, title: 'ノルウェイの森 上', uri: `calil://watch/${watched.watch.id}` })]);
+    expect(removed.removed.id).toBe(watched.watch.id);
+    expect(isError).toBe(true);
+    expect(missing.code).toBe('WATCH_NOT_FOUND');
+  });
+
+  it('does not register a watch for an unknown area', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('watch_book', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '存在しない市' });
+    const { body: listed } = await callTool('list_watches');
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('UNKNOWN_AREA');
+    expect(listed.total).toBe(0);
+  });
+
+  it('persists watches to the watchlist file', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'watchlist-')), 'watchlist.json');
+    const first = await connect({ watchlist: { file, checkIntervalMinutes: 0 } });
+    await first.callTool('watch_book', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市' });
+
+    const second = await connect({ watchlist: { file, checkIntervalMinutes: 0 } });
+    const { body } = await second.callTool('list_watches');
+
+    expect(body.watches).toEqual([expect.objectContaining({ isbn: NINGEN_SHIKKAKU, city: '八千代市', lastCheckedAt: expect.any(String) })]);
+  });
+
+  it('notifies subscribers of a watch resource when its availability changes', async () => {
+    const fixtures = loadCalilFixtures();
+    const { callTool, client } = await connect({}, fixtures);
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      updated.push(notification.params.uri);
+    });
+
+    const { body: watched } = await callTool<WatchResult>('watch_book', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市' });
+    await client.subscribeResource({ uri: watched.watch.uri });
+    await callTool('check_watches');
+    delete fixtures.check.holdings[NINGEN_SHIKKAKU].Chiba_Yachiyo.libkey['中央'];
+    await callTool('check_watches');
+    const resource = await client.readResource({ uri: watched.watch.uri });
+
+    expect(updated).toEqual([watched.watch.uri]);
+    expect(JSON.parse(resource.contents[0].text as string).libraries).toEqual([
+      expect.objectContaining({ formal: '八千代市立大和田図書館', status: 'on_loan' }),
+    ]);
+  });
+});
+
+describe('import_reading_list', () => {
+  it('reports where each book of a reading list can be borrowed now', async () => {
+    const { callTool } = await connect();
+    const content = 'title,author,isbn\n人間失格,太宰治,4-10-100161-8\nノルウェイの森 上,村上春樹,4062748681\n存在しない本,誰か,\n';
+
+    const { isError, body } = await callTool('import_reading_list', { content, prefecture: '千葉県', city: 'yachiyo' });
+
+    expect(isError).toBe(false);
+    expect(body).toMatchObject({ format: 'csv', area: { prefecture: '千葉県', cities: ['八千代市'] }, total: 3, checked: 2, availableNow: 1 });
+    expect(body.books).toEqual([
+      expect.objectContaining({ position: 1, title: '人間失格', isbn: NINGEN_SHIKKAKU, status: 'available', availableAt: ['八千代市立中央図書館'] }),
+      expect.objectContaining({ position: 2, isbn: NORWEGIAN_WOOD_1, status: 'on_loan', availableAt: [] }),
+      { position: 3, title: '存在しない本', author: '誰か', isbn: null, status: 'no_isbn' },
+    ]);
+  });
+
+  it('rejects a reading list without valid ISBNs', async () => {
+    const { callTool, mock } = await connect();
+
+    const { isError, body } = await callTool('import_reading_list', { content: 'ノルウェイの森\n人間失格', prefecture: '千葉県' });
+
+    expect(isError).toBe(true);
+    expect(body.code).toBe('INVALID_ISBN');
+    expect(body.details).toMatchObject({ format: 'text', entries: 2 });
+    expect(mock.requests).toHaveLength(0);
+  });
+});
+
+describe('exporting results', () => {
+  it('returns search_books results as CSV with the JSON payload kept as structured content', async () => {
+    const { callTool } = await connect();
+
+    const { isError, text, structuredContent } = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市', format: 'csv' });
+
+    expect(isError).toBe(false);
+    expect(text.split('\r\n')).toEqual([
+      'isbn,title,status,status_label,library,libid,systemid,systemname,address,tel,url,reserve_url,distance_km',
+      expect.stringMatching(/^9784101001616,,available,貸出可,八千代市立中央図書館,/),
+      expect.stringMatching(/^9784101001616,,on_loan,貸出中,八千代市立大和田図書館,/),
+      '',
+    ]);
+    expect(structuredContent).toMatchObject({ isbn: NINGEN_SHIKKAKU, summary: { availableCount: 1 } });
+  });
+
+  it('renders a previous search_books result as a Markdown table, GeoJSON and visit reminders', async () => {
+    const { callTool } = await connect();
+    const { body: search } = await callTool('search_books', { isbn_list: [NINGEN_SHIKKAKU, NORWEGIAN_WOOD_1], prefecture: '千葉県', city: '八千代市' });
+
+    const markdown = await callTool('export_results', { results: search, format: 'markdown' });
+    expect(markdown.text).toContain('| 書名 | ISBN | 図書館 | 貸出状況 | 予約 |');
+    expect(markdown.text).toMatch(/\| - \| 9784062748681 \| \[八千代市立大和田図書館\]\(http[^)]+\) \| 予約中 \|/);
+    expect(markdown.structuredContent).toMatchObject({ format: 'markdown', mimeType: 'text/markdown', fileName: 'availability.md', books: 2 });
+
+    const geojson = await callTool<{ type: string; features: unknown[] }>('export_results', { results: JSON.stringify(search), format: 'geojson' });
+    expect(geojson.body.type).toBe('FeatureCollection');
+    expect(geojson.body.features).toHaveLength(2);
+    expect(geojson.body.features[1]).toMatchObject({
+      geometry: { type: 'Point' },
+      properties: { name: '八千代市立大和田図書館', availableCount: 0, books: [{ isbn: NINGEN_SHIKKAKU, status: 'on_loan' }, { isbn: NORWEGIAN_WOOD_1, status: 'reserved' }] },
+    });
+
+    const ics = await callTool('export_results', { results: search, format: 'ics', visit_date: '2026-11-03' });
+    expect(ics.text.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics.text).toContain('DTSTART;VALUE=DATE:20261103\r\n');
+    expect(ics.text).toContain('SUMMARY:図書館で本を借りる: 八千代市立中央図書館\r\n');
+  });
+
+  it('rejects an unknown format and results that are not search_books output', async () => {
+    const { callTool } = await connect();
+
+    const badFormat = await callTool('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', format: 'xlsx' });
+    const badResults = await callTool('export_results', { results: { books: [] }, format: 'csv' });
+    const badDate = await callTool('export_results', { results: [], format: 'ics', visit_date: '2026-02-30' });
+
+    expect([badFormat, badResults, badDate].map(result => result.body.code)).toEqual(['INVALID_ARGUMENT', 'INVALID_ARGUMENT', 'INVALID_ARGUMENT']);
+  });
+});
+
+describe('plan_library_visits', () => {
+  it('visits the fewest libraries for the lendable books, nearest first', async () => {
+    const { callTool } = await connect();
+
+    // 千葉大学附属図書館の近くから出発する
+    const { isError, body } = await callTool<VisitPlan>('plan_library_visits', {
+      isbn_list: [NINGEN_SHIKKAKU, NORWEGIAN_WOOD_1],
+      prefecture: '千葉県',
+      latitude: 35.628,
+      longitude: 140.103,
+    });
+
+    expect(isError).toBe(false);
+    expect(body).toMatchObject({ area: { prefecture: '千葉県' }, books: 2, covered: 2, uncovered: [], optimal: true });
+    expect(body.visits).toEqual([
+      expect.objectContaining({ library: expect.objectContaining({ formal: '千葉大学附属図書館' }), books: [expect.objectContaining({ isbn: NORWEGIAN_WOOD_1 })] }),
+      expect.objectContaining({ library: expect.objectContaining({ formal: '八千代市立中央図書館' }), books: [expect.objectContaining({ isbn: NINGEN_SHIKKAKU })] }),
+    ]);
+    expect(body.visits[1].distanceKm).toBeGreaterThan(10);
+  });
+
+  it('reports books that are on loan everywhere', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool('plan_library_visits', { isbn_list: [NORWEGIAN_WOOD_1], prefecture: '千葉県', city: '八千代市' });
+
+    expect(body).toMatchObject({ covered: 0, visits: [], uncovered: [{ isbn: NORWEGIAN_WOOD_1, heldAt: [{ library: '八千代市立大和田図書館', status: 'reserved' }] }] });
+  });
+
+  it('requires a list of ISBNs', async () => {
+    const { callTool } = await connect();
+
+    const { body } = await callTool('plan_library_visits', { isbn_list: [], prefecture: '千葉県' });
+
+    expect(body.code).toBe('INVALID_ARGUMENT');
+  });
+});
+
+describe('profile tools', () => {
+  it('uses the home area as the default and lists preferred libraries first', async () => {
+    const { callTool } = await connect();
+
+    const { body: updated } = await callTool('update_profile', { prefecture: '千葉', city: 'yachiyo', add_libraries: ['104689'] });
+    const { body: libraries } = await callTool<LibraryList>('get_libraries_by_city', {});
+    const { body: search } = await callTool<BookAvailabilityResult>('search_books', { isbn: NINGEN_SHIKKAKU });
+    const { body: plain } = await callTool<BookAvailabilityResult>('search_books', { isbn: NINGEN_SHIKKAKU, prefecture: '千葉県', city: '八千代市', use_profile: false });
+
+    expect(updated.profile).toMatchObject({ home: { prefecture: '千葉県', city: '八千代市' }, preferredLibraries: [{ libid: '104689' }] });
+    expect(libraries.city).toBe('八千代市');
+    expect(libraries.libraries.map(library => [library.libid, library.preferred])).toEqual([
+      ['104689', true],
+      ['104688', undefined],
+    ]);
+    expect(search.availability.map(entry => [entry.library.formal, entry.preferred])).toEqual([
+      ['八千代市立大和田図書館', true],
+      ['八千代市立中央図書館', undefined],
+    ]);
+    expect(search.summary.availableAt).toEqual(['八千代市立中央図書館']);
+    expect(plain.availability[0].library.formal).toBe('八千代市立中央図書館');
+  });
+
+  it('leaves excluded library categories out unless they are asked for', async () => {
+    const { callTool } = await connect();
+    await callTool('update_profile', { excluded_categories: ['UNIV'] });
+
+    const { body: search } = await callTool<BookAvailabilityResult>('search_books', { isbn: NORWEGIAN_WOOD_1, prefecture: '千葉県' });
+    const { body: univ } = await callTool<LibraryList>('get_libraries_by_city', { prefecture: '千葉県', city: '千葉市稲毛区', category: ['UNIV'] });
+    const { body: excluded } = await callTool('get_libraries_by_city', { prefecture: '千葉県', city: '千葉市稲毛区' });
+
+    expect(search.availability.some(entry => entry.library.category === 'UNIV')).toBe(false);
+    expect(search.summary.availableAt).toEqual([]);
+    expect(univ.libraries.map(library => library.libid)).toEqual(['108236']);
+    expect(excluded.libraries).toEqual([]);
+  });
+
+  it('persists the profile to the profile file and resets it', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'profile-')), 'profile.json');
+    const first = await connect({ profile: { file } });
+    await first.callTool('update_profile', { city: '船橋市', add_systems: ['Chiba_Funabashi'], excluded_categories: ['BM'] });
+
+    const second = await connect({ profile: { file } });
+    const { body } = await second.callTool('get_profile');
+    const { body: reset } = await second.callTool('reset_profile');
+
+    expect(body.profile).toMatchObject({
+      home: { prefecture: '千葉県', city: '船橋市' },
+      preferredSystems: [{ systemid: 'Chiba_Funabashi', uri: expect.any(String) }],
+      excludedCategories: ['BM'],
+      updatedAt: expect.any(String),
+    });
+    expect(reset.profile).toEqual({ preferredLibraries: [], preferredSystems: [], excludedCategories: [] });
+  });
+
+  it('validates profile changes', async () => {
+    const { callTool } = await connect();
+
+    const empty = await callTool('update_profile', {});
+    const badCategory = await callTool('update_profile', { excluded_categories: ['LIBRARY'] });
+    const conflicting = await callTool('update_profile', { city: '八千代市', clear_home: true });
+
+    expect([empty, badCategory, conflicting].map(result => result.body.code)).toEqual(['INVALID_ARGUMENT', 'INVALID_ARGUMENT', 'INVALID_ARGUMENT']);
+  });
+});
+
+describe('prompts', () => {
+  it('lists the workflow prompts', async () => {
+    const { client } = await connect();
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['find_book_nearby', 'compare_library_availability', 'plan_library_pickup']);
+  });
+
+  it('fills in the book and the default area', async () => {
+    const { client } = await connect({ defaultPrefecture: '千葉県', defaultCity: '八千代市' });
+
+    const { messages } = await client.getPrompt({ name: 'find_book_nearby', arguments: { book: '978-4-10-100161-6' } });
+    const text = (messages[0].content as { text: string }).text;
+
+    expect(messages[0].role).toBe('user');
+    expect(text).toContain('get_libraries_by_city（prefecture: "千葉県", city: "八千代市"）');
+    expect(text).toContain('search_books（isbn: "9784101001616", prefecture: "千葉県", city: "八千代市"）');
+  });
+
+  it('searches the usual cities in a single call', async () => {
+    const { client } = await connect();
+
+    const { messages } = await client.getPrompt({ name: 'compare_library_availability', arguments: { book: 'ノルウェイの森', cities: '八千代市、船橋市' } });
+
+    expect((messages[0].content as { text: string }).text).toContain('search_books（title: "ノルウェイの森", cities: ["八千代市", "船橋市"]）');
+  });
+
+  it('plans the pickup of several books with plan_library_visits', async () => {
+    const { client } = await connect();
+
+    const { messages } = await client.getPrompt({ name: 'plan_library_pickup', arguments: { books: '978-4-10-100161-6\n人間失格', prefecture: '千葉県' } });
+    const text = (messages[0].content as { text: string }).text;
+
+    expect(text).toContain('2. ISBNが分からない本は search_books の title で1冊ずつ検索し');
+    expect(text).toContain('3. plan_library_visits（isbn_list: ["9784101001616", 調べたISBN], prefecture: "千葉県"）');
+  });
+
+  it('rejects missing arguments and unknown prompts', async () => {
+    const { client } = await connect();
+
+    await expect(client.getPrompt({ name: 'plan_library_pickup', arguments: {} })).rejects.toThrow('Missing required prompt arguments: books');
+    await expect(client.getPrompt({ name: 'no_such_prompt' })).rejects.toThrow('Unknown prompt: no_such_prompt');
+  });
+});
+
+describe('unknown tools', () => {
+  it('returns UNKNOWN_TOOL', async () => {
+    const { callTool } = await connect();
+
+    const { isError, body } = await callTool('no_such_tool');
+
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({ code: 'UNKNOWN_TOOL', details: { tool: 'no_such_tool' } });
+  });
+});
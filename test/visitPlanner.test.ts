@@ -0,0 +1,64 @@
+/**
+ * 集合被覆と最近傍法による図書館の訪問計画を検証する
+ */
+import { describe, expect, it } from '@jest/globals';
+
+import { BookAvailabilityResult, LendingStatus, LibraryInfo } from '../src/types/calil.js';
+import { planLibraryVisits } from '../src/utils/visitPlanner.js';
+
+function library(libid: string, geocode: string): LibraryInfo {
+  return { libid, formal: `図書館${libid}`, geocode } as LibraryInfo;
+}
+
+const X = library('X', '140.00,35.70');
+const Y = library('Y', '140.10,35.70');
+const Z = library('Z', '140.20,35.70');
+
+/**
+ * 図書館ごとの貸出状態から1冊分の蔵書検索結果を作る
+ */
+function book(isbn: string, holdings: [LibraryInfo, LendingStatus][]): BookAvailabilityResult {
+  return {
+    isbn,
+    availability: holdings.map(([holder, status]) => ({ library: holder, status, statusLabel: status === 'available' ? '貸出可' : '貸出中' })),
+  } as BookAvailabilityResult;
+}
+
+// X は4冊を借りられるが、Y と Z の2館で6冊すべてを借りられる（貪欲法では3館になる）
+const books = [
+  book('a', [[X, 'available'], [Y, 'available']]),
+  book('b', [[X, 'available'], [Y, 'available']]),
+  book('c', [[X, 'available'], [Z, 'available']]),
+  book('d', [[X, 'available'], [Z, 'available']]),
+  book('e', [[Y, 'available']]),
+  book('f', [[Z, 'available']]),
+];
+
+describe('planLibraryVisits', () => {
+  it('finds the fewest libraries covering every lendable book', () => {
+    const plan = planLibraryVisits(books);
+
+    expect(plan.optimal).toBe(true);
+    expect(plan.visits.map(visit => visit.library.libid).sort()).toEqual(['Y', 'Z']);
+    expect(plan.visits.flatMap(visit => visit.books.map(entry => entry.isbn)).sort()).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(plan.visits[0].distanceKm).toBeNull();
+  });
+
+  it('orders the visits from the starting point', () => {
+    const plan = planLibraryVisits(books, { latitude: 35.70, longitude: 140.25 });
+
+    expect(plan.visits.map(visit => visit.library.libid)).toEqual(['Z', 'Y']);
+    expect(plan.visits[0].distanceKm).toBeCloseTo(4.52, 1);
+    expect(plan.totalDistanceKm).toBeCloseTo(plan.visits[0].distanceKm! + plan.visits[1].distanceKm!, 2);
+  });
+
+  it('reports books that cannot be borrowed anywhere now', () => {
+    const plan = planLibraryVisits([book('a', [[X, 'available']]), book('g', [[Y, 'on_loan'], [Z, 'not_held']]), book('h', [[X, 'not_held']])]);
+
+    expect(plan.visits.map(visit => visit.library.libid)).toEqual(['X']);
+    expect(plan.uncovered).toEqual([
+      { isbn: 'g', heldAt: [{ library: '図書館Y', status: 'on_loan' }] },
+      { isbn: 'h', heldAt: [] },
+    ]);
+  });
+});